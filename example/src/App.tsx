@@ -10,7 +10,37 @@ import {
   Copy,
   Check,
 } from "lucide-react";
-import { useWebNfc } from "@uverify/asymmetric-nfc";
+import {
+  LocalStorageSigningStateStorage,
+  NfcPermissionError,
+  NfcUnsupportedError,
+  publicKeyFingerprint,
+  SigningError,
+  TraceBuffer,
+  useWebNfc,
+  type LogEntry,
+  type SignOpts,
+  type SignResult,
+} from "@uverify/asymmetric-nfc";
+
+// Survives reloads so an interrupted signing run can be resumed
+const signingState = new LocalStorageSigningStateStorage();
+
+// Short form for comparing keys by eye; empty for keys that are not valid
+function fingerprintOf(publicKey: string) {
+  try {
+    return publicKeyFingerprint(publicKey);
+  } catch {
+    return "";
+  }
+}
+
+// Library events and our own notes for the debug panel
+const trace = new TraceBuffer({ capacity: 16, level: "info" });
+
+const formatEntry = (entry: LogEntry) =>
+  `[${new Date(entry.ts).toLocaleTimeString()}] ${entry.event}` +
+  (entry.data ? ` ${JSON.stringify(entry.data)}` : "");
 
 const App = () => {
   const [message, setMessage] = useState("Hello World");
@@ -23,10 +53,8 @@ const App = () => {
   const [statusText, setStatusText] = useState("Ready to sign");
   const [stepsRemaining, setStepsRemaining] = useState<number | null>(null);
   const [stepsTotal, setStepsTotal] = useState<number | null>(null);
-  const [lastReadTime, setLastReadTime] = useState<number>(0);
   const [isScanning, setIsScanning] = useState(false);
-  const [tagInRange, setTagInRange] = useState(true);
-  const [debugLogs, setDebugLogs] = useState<string[]>([]);
+  const [debugLogs, setDebugLogs] = useState<LogEntry[]>([]);
   const [publicKey, setPublicKey] = useState("");
   const [chipId, setChipId] = useState("");
   const [isGettingDeviceInfo, setIsGettingDeviceInfo] = useState(false);
@@ -34,10 +62,10 @@ const App = () => {
   const [copiedChipId, setCopiedChipId] = useState(false);
   const [copiedSignature, setCopiedSignature] = useState(false);
 
-  const powerCycleIntervalRef = useRef<any>(null);
+  const signAbortRef = useRef<AbortController | null>(null);
   const statusRef = useRef<"idle" | "writing" | "computing" | "done">("idle");
-  const lastStepsRef = useRef<number | null>(null);
-  const stuckCountRef = useRef<number>(0);
+  const [etaMs, setEtaMs] = useState<number | null>(null);
+  const [stalled, setStalled] = useState(false);
 
   // NEW: keep latest isGettingDeviceInfo in a ref to avoid stale closure
   const isGettingDeviceInfoRef = useRef<boolean>(isGettingDeviceInfo);
@@ -52,209 +80,231 @@ const App = () => {
     statusRef.current = status;
   }, [status]);
 
-  const addDebugLog = (msg: string) => {
-    const timestamp = new Date().toLocaleTimeString();
-    setDebugLogs((prev) => [...prev.slice(-15), `[${timestamp}] ${msg}`]);
-  };
-
-  const { isSupported, startScan, stopScan, writeText, startSingleRead } =
-    useWebNfc({
-      onReading: (tagId, payload: any) => {
-        addDebugLog(`Reading [${tagId}]: ${JSON.stringify(payload)}`);
-        setLastReadTime(Date.now());
-        setTagInRange(true);
-        if (!payload) return;
-
-        const isHex = (s: any, len: number) =>
-          typeof s === "string" && new RegExp(`^[0-9a-fA-F]{${len}}$`).test(s);
+  useEffect(() => trace.on("entry", () => setDebugLogs(trace.entries())), []);
 
-        // Single-read device info mode
-        if (isGettingDeviceInfoRef.current) {
-          let gotSomething = false;
-
-          // Accept parsed PH_IDLE and explicit key fields
-          const pk =
-            (payload.state === "PH_IDLE" ? payload.pubkey : undefined) ||
-            payload.publicKey ||
-            payload.pubkey;
+  const addDebugLog = (msg: string) =>
+    trace.log({ ts: Date.now(), level: "info", event: msg });
 
-          const cid: string | undefined = payload.chipId || payload.uid;
-
-          if (isHex(pk, 64)) {
-            addDebugLog(
-              `Public Key received (64-hex): ${pk.substring(0, 16)}...`
-            );
-            setPublicKey(pk);
-            gotSomething = true;
-          }
+  const clearDebugLogs = () => {
+    trace.clear();
+    setDebugLogs([]);
+  };
 
-          if (typeof cid === "string" && cid.length) {
-            addDebugLog(`Chip ID received: ${cid.substring(0, 16)}...`);
-            setChipId(cid);
-            gotSomething = true;
-          }
+  const {
+    isSupported,
+    stopScan,
+    sendCommand,
+    startSingleRead,
+    signMessage,
+    resumeSigning,
+    discardPendingSigning,
+    measure,
+    presence,
+  } = useWebNfc({
+    signingState,
+    logger: trace,
+    onTagLeave: () => addDebugLog("Tag leaving the field"),
+    onTagLost: () => addDebugLog("Tag lost"),
+    onResumable: (pending) => {
+      if (statusRef.current !== "idle") return;
+      addDebugLog(`Interrupted run found (${pending.phase})`);
+      if (window.confirm(`Resume signing "${pending.message}"?`)) {
+        setMessage(pending.message);
+        void runSigning(
+          (opts) => resumeSigning(opts),
+          "Resuming interrupted signing..."
+        );
+      } else {
+        void discardPendingSigning();
+      }
+    },
+    onReading: (tagId, payload) => {
+      addDebugLog(`Reading [${tagId}]: ${JSON.stringify(payload)}`);
+
+      // Single-read device info mode
+      if (isGettingDeviceInfoRef.current) {
+        let gotSomething = false;
+
+        // Accept parsed PH_IDLE and labeled device info
+        const pk =
+          payload.kind === "status" && payload.state === "PH_IDLE"
+            ? payload.pubkey
+            : payload.kind === "device-info"
+              ? payload.publicKey
+              : undefined;
+
+        const cid = payload.kind === "device-info" ? payload.chipId : undefined;
+
+        if (pk) {
+          addDebugLog(
+            `Public Key received (64-hex): ${pk.substring(0, 16)}...`
+          );
+          setPublicKey(pk);
+          gotSomething = true;
+        }
 
-          // Clear failsafe timeout if set
-          if (singleReadTimeoutRef.current) {
-            clearTimeout(singleReadTimeoutRef.current);
-            singleReadTimeoutRef.current = null;
-          }
+        if (cid) {
+          addDebugLog(`Chip ID received: ${cid.substring(0, 16)}...`);
+          setChipId(cid);
+          gotSomething = true;
+        }
 
-          if (gotSomething) {
-            setIsGettingDeviceInfo(false);
-            stopScan();
-            setIsScanning(false);
-            return;
-          }
+        // Clear failsafe timeout if set
+        if (singleReadTimeoutRef.current) {
+          clearTimeout(singleReadTimeoutRef.current);
+          singleReadTimeoutRef.current = null;
+        }
 
+        if (gotSomething) {
+          setIsGettingDeviceInfo(false);
           stopScan();
           setIsScanning(false);
-          setIsGettingDeviceInfo(false);
-          setError(
-            "Device info payload not recognized (expecting 64-hex pubkey)"
-          );
           return;
         }
 
-        // Signing state machine (already parsed by the hook)
-        switch (payload.state) {
-          case "PH_INIT_K":
-            addDebugLog("State: PH_INIT_K");
-            setStatus("computing");
-            setStatusText("Initializing (K)...");
-            setProgress(
-              typeof payload.progress === "number" ? payload.progress : 10
-            );
-            lastStepsRef.current = null;
-            stuckCountRef.current = 0;
-            break;
+        stopScan();
+        setIsScanning(false);
+        setIsGettingDeviceInfo(false);
+        setError(
+          "Device info payload not recognized (expecting 64-hex pubkey)"
+        );
+        return;
+      }
 
-          case "PH_INIT_R":
-            addDebugLog("State: PH_INIT_R");
-            setStatus("computing");
-            setStatusText("Initializing (R)...");
-            setProgress(
-              typeof payload.progress === "number" ? payload.progress : 10
-            );
-            lastStepsRef.current = null;
-            stuckCountRef.current = 0;
-            break;
+      if (payload.kind !== "status") {
+        addDebugLog(`Ignoring ${payload.kind} reading`);
+        return;
+      }
 
-          case "PH_R_WORK": {
-            setStatus("computing");
-            const steps =
-              typeof payload.stepsRemaining === "number"
-                ? payload.stepsRemaining
-                : undefined;
-
-            if (typeof steps === "number") {
-              addDebugLog(`State: PH_R_WORK, stepsRemaining: ${steps}`);
-
-              if (lastStepsRef.current === steps) {
-                stuckCountRef.current++;
-                addDebugLog(
-                  `⚠️ Progress stuck (count: ${stuckCountRef.current})`
-                );
-              } else {
-                stuckCountRef.current = 0;
-              }
-              lastStepsRef.current = steps;
-
-              setStepsRemaining(steps);
-              setStepsTotal(
-                typeof payload.stepsTotal === "number"
-                  ? payload.stepsTotal
-                  : null
-              );
+      // Signing state machine (already parsed by the hook)
+      switch (payload.state) {
+        case "PH_INIT_K":
+          addDebugLog("State: PH_INIT_K");
+          setStatus("computing");
+          setStatusText("Initializing (K)...");
+          setProgress(
+            typeof payload.progress === "number" ? payload.progress : 10
+          );
+          break;
+
+        case "PH_INIT_R":
+          addDebugLog("State: PH_INIT_R");
+          setStatus("computing");
+          setStatusText("Initializing (R)...");
+          setProgress(
+            typeof payload.progress === "number" ? payload.progress : 10
+          );
+          break;
 
-              if (typeof payload.progress === "number") {
-                setProgress(payload.progress);
-                setStatusText(
-                  `Computing R phase... ${payload.progress}% (${steps} steps remaining)`
-                );
-              } else {
-                setProgress((prev: number) => Math.max(prev ?? 0, 10));
-                setStatusText(
-                  `Computing R phase... (${steps} steps remaining)`
-                );
-              }
-            } else {
-              addDebugLog("State: PH_R_WORK (no steps info)");
-              if (typeof payload.progress === "number") {
-                setProgress(payload.progress);
-              } else {
-                setProgress((prev: number) => Math.max(prev ?? 0, 10));
-              }
-              setStatusText("Computing R phase...");
-            }
-            break;
-          }
+        case "PH_R_WORK": {
+          setStatus("computing");
+          const steps =
+            typeof payload.stepsRemaining === "number"
+              ? payload.stepsRemaining
+              : undefined;
 
-          case "PH_R_DONE":
-            addDebugLog("State: PH_R_DONE");
-            setStatus("computing");
-            // Hook maps the last 5% to this phase; use provided progress or default to 97%
-            setProgress((prev: number) =>
-              Math.max(
-                prev ?? 0,
-                typeof payload.progress === "number" ? payload.progress : 97
-              )
+          if (typeof steps === "number") {
+            addDebugLog(`State: PH_R_WORK, stepsRemaining: ${steps}`);
+
+            setStepsRemaining(steps);
+            setStepsTotal(
+              typeof payload.stepsTotal === "number" ? payload.stepsTotal : null
             );
-            setStatusText("R phase complete. Finalizing signature...");
-            break;
-
-          case "PH_DONE":
-            addDebugLog("State: PH_DONE");
-            setStatus("done");
-            setProgress(100);
-            setStatusText("Signature complete!");
-            if (payload.signature && isHex(payload.signature, 128)) {
-              addDebugLog(
-                `Signature: ${payload.signature.substring(0, 16)}...`
+
+            if (typeof payload.progress === "number") {
+              setProgress(payload.progress);
+              setStatusText(
+                `Computing R phase... ${payload.progress}% (${steps} steps remaining)`
               );
-              setSignature(payload.signature);
+            } else {
+              setProgress((prev: number) => Math.max(prev ?? 0, 10));
+              setStatusText(`Computing R phase... (${steps} steps remaining)`);
             }
-            setTimeout(() => stopPowerCycling(), 1000);
-            break;
-
-          case "PH_IDLE": {
-            const pk = payload.pubkey;
-            if (isHex(pk, 64)) {
-              addDebugLog(
-                `Idle public key broadcast: ${pk.substring(0, 16)}...`
-              );
-              setPublicKey(pk);
+          } else {
+            addDebugLog("State: PH_R_WORK (no steps info)");
+            if (typeof payload.progress === "number") {
+              setProgress(payload.progress);
             } else {
-              addDebugLog("State: PH_IDLE");
+              setProgress((prev: number) => Math.max(prev ?? 0, 10));
             }
-            setStatus("idle");
-            setStatusText("Device idle");
-            break;
+            setStatusText("Computing R phase...");
           }
+          break;
+        }
 
-          case "BUSY":
-            addDebugLog("State: BUSY");
-            setStatus("computing");
-            setStatusText("Device busy. Keep the tag in place...");
-            break;
-
-          case "ERROR":
-            addDebugLog(`Error: ${payload.error}`);
-            setError(payload.error || "Unknown error from device");
+        case "PH_R_DONE":
+          addDebugLog("State: PH_R_DONE");
+          setStatus("computing");
+          // Hook maps the last 5% to this phase; use provided progress or default to 97%
+          setProgress((prev: number) =>
+            Math.max(
+              prev ?? 0,
+              typeof payload.progress === "number" ? payload.progress : 97
+            )
+          );
+          setStatusText("R phase complete. Finalizing signature...");
+          break;
+
+        case "PH_DONE":
+          addDebugLog("State: PH_DONE");
+          setStatus("done");
+          setProgress(100);
+          setStatusText("Signature complete!");
+          if (payload.signature) {
+            addDebugLog(`Signature: ${payload.signature.substring(0, 16)}...`);
+            setSignature(payload.signature);
+          }
+          break;
+
+        case "PH_IDLE": {
+          const pk = payload.pubkey;
+          addDebugLog(`Idle public key broadcast: ${pk.substring(0, 16)}...`);
+          setPublicKey(pk);
+          // signMessage reads the key before writing; stay in "writing"
+          if (statusRef.current !== "writing") {
             setStatus("idle");
-            stopPowerCycling();
-            break;
-
-          default:
-            addDebugLog(`Unrecognized state: ${JSON.stringify(payload.state)}`);
-            break;
+            setStatusText("Device idle");
+          }
+          break;
         }
-      },
-      onError: (err) => {
-        addDebugLog(`NFC Error: ${err.message}`);
+
+        case "BUSY":
+          addDebugLog("State: BUSY");
+          setStatus("computing");
+          setStatusText("Device busy. Keep the tag in place...");
+          break;
+
+        case "ERROR":
+          addDebugLog(`Error: ${payload.error}`);
+          setError(payload.error || "Unknown error from device");
+          setStatus("idle");
+          break;
+
+        default:
+          addDebugLog(`Unrecognized state: ${JSON.stringify(payload)}`);
+          break;
+      }
+    },
+    onError: (err) => {
+      addDebugLog(`${err.name}: ${err.message}`);
+      // Read glitches and device errors are expected while power cycling;
+      // the ERROR reading above already shows the firmware text
+      if (
+        err instanceof NfcPermissionError ||
+        err instanceof NfcUnsupportedError
+      ) {
         setError(`NFC Error: ${err.message}`);
-      },
-    });
+      }
+    },
+    onTelemetry: (t) => {
+      setStalled(false);
+      setEtaMs(t.etaMs ?? null);
+    },
+    onStalled: (t) => {
+      addDebugLog(`⚠️ Progress stuck at ${t.stepsRemaining} steps`);
+      setStalled(true);
+    },
+  });
 
   const [isFieldActive, setIsFieldActive] = useState(false);
 
@@ -264,12 +314,7 @@ const App = () => {
       return;
     }
     setIsFieldActive(true);
-    const checkActivity = setInterval(() => {
-      const timeSinceLastRead = Date.now() - lastReadTime;
-      setTagInRange(timeSinceLastRead < 5000);
-    }, 1000);
-    return () => clearInterval(checkActivity);
-  }, [isScanning, lastReadTime]);
+  }, [isScanning]);
 
   // Single-read device info flow
   const handleGetDeviceInfo = async () => {
@@ -286,13 +331,12 @@ const App = () => {
         singleReadTimeoutRef.current = null;
       }
 
-      addDebugLog("Writing 'pubkey' command to tag...");
-      await writeText("pubkey");
+      addDebugLog("Sending getPublicKey command to tag...");
+      await sendCommand({ op: "getPublicKey" });
       addDebugLog("Command written. Starting single-read scan...");
 
       await startSingleRead(3000); // times out automatically if nothing read in 3s
       setIsScanning(true);
-      setLastReadTime(Date.now());
 
       // Failsafe to stop spinner if nothing arrives
       singleReadTimeoutRef.current = window.setTimeout(() => {
@@ -340,131 +384,76 @@ const App = () => {
     }
   };
 
-  const handleSign = async () => {
+  // Legacy encoding writes the message as a plain text record
+  const messageSize = measure(message);
+
+  const handleSign = () => {
     if (!message.trim()) return;
+    void runSigning(
+      (opts) =>
+        signMessage(message, { ...opts, publicKey: publicKey || undefined }),
+      "Please hold your phone near the NFC tag..."
+    );
+  };
+
+  const runSigning = async (
+    start: (opts: SignOpts) => Promise<SignResult>,
+    initialText: string
+  ) => {
+    const controller = new AbortController();
+    signAbortRef.current = controller;
     try {
       setError("");
       setStatus("writing");
-      setStatusText("Please hold your phone near the NFC tag...");
+      setStatusText(initialText);
       setProgress(0);
       setSignature("");
       setStepsRemaining(null);
       setStepsTotal(null);
-      setDebugLogs([]);
-      lastStepsRef.current = null;
-      stuckCountRef.current = 0;
-      addDebugLog("Writing message to tag...");
-      await writeText(message);
-      addDebugLog("Message written successfully");
-      setStatusText("Message written! Starting power cycles...");
-      setStatus("computing");
+      clearDebugLogs();
+      setEtaMs(null);
+      setStalled(false);
       setIsScanning(true);
-      setLastReadTime(Date.now());
-      await new Promise((resolve) => setTimeout(resolve, 100));
-      startPowerCycling();
+      addDebugLog(initialText);
+      const result = await start({
+        signal: controller.signal,
+        onProgress: (p) => {
+          if (p.state === "WRITTEN") {
+            addDebugLog("Message written successfully");
+            setStatusText("Message written! Starting power cycles...");
+            setStatus("computing");
+          } else if (p.state === "RESUMED") {
+            addDebugLog("Resuming interrupted run");
+            setStatusText("Resumed! Continuing power cycles...");
+            setStatus("computing");
+          }
+        },
+      });
+      addDebugLog(`Signature: ${result.signature.substring(0, 16)}...`);
+      setSignature(result.signature);
+      setPublicKey(result.publicKey);
+      setStatus("done");
+      setProgress(100);
+      setStatusText("Signature complete!");
     } catch (err) {
+      if (err instanceof SigningError && err.reason === "aborted") {
+        addDebugLog("Signing cancelled");
+        return;
+      }
       const error = err as Error;
       addDebugLog(`Error: ${error.message}`);
       setError(`Failed: ${error.message}`);
       setStatus("idle");
       setStatusText("Ready to sign");
+    } finally {
+      if (signAbortRef.current === controller) signAbortRef.current = null;
+      setIsScanning(false);
     }
   };
 
-  const startPowerCycling = () => {
-    let cycleCount = 0;
-    const maxCycles = 100;
-    let shouldContinue = true;
-    addDebugLog("Initializing power cycling...");
-
-    const doCycle = async () => {
-      if (cycleCount >= maxCycles) {
-        addDebugLog("Max cycles reached, stopping");
-        stopPowerCycling();
-        setError("Computation timeout");
-        return false;
-      }
-      if (!shouldContinue) {
-        addDebugLog("Computation complete, stopping cycles");
-        return false;
-      }
-      cycleCount++;
-      addDebugLog(`Cycle ${cycleCount}: Powering chip for 20s...`);
-      setIsFieldActive(true);
-      try {
-        await startScan({
-          pollMs: 300,
-          deepResetEveryMs: 999999,
-          deepResetPauseMs: 0,
-          staleAfterMs: 999999,
-        });
-        addDebugLog("Scan started, waiting 20s...");
-        await new Promise((resolve) => setTimeout(resolve, 20000));
-        addDebugLog("Stopping scan to read...");
-        stopScan();
-        setIsFieldActive(false);
-        await new Promise((resolve) => setTimeout(resolve, 500));
-        addDebugLog("Reading status...");
-        await startScan({
-          pollMs: 300,
-          deepResetEveryMs: 999999,
-          deepResetPauseMs: 0,
-          staleAfterMs: 999999,
-        });
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-        addDebugLog("Read complete, stopping scan");
-        stopScan();
-        setIsFieldActive(false);
-        await new Promise((resolve) => setTimeout(resolve, 500));
-        return true;
-      } catch (err) {
-        const error = err as Error;
-        addDebugLog(`Cycle error: ${error.message}`);
-        return false;
-      }
-    };
-
-    const runCycles = async () => {
-      if (statusRef.current !== "computing") {
-        addDebugLog("Status changed, stopping cycles");
-        stopPowerCycling();
-        return;
-      }
-      const continueNext = await doCycle();
-      if (continueNext && shouldContinue && statusRef.current === "computing") {
-        addDebugLog("Scheduling next cycle...");
-        powerCycleIntervalRef.current = window.setTimeout(
-          () => runCycles(),
-          100
-        );
-      } else {
-        addDebugLog("Stopping power cycles");
-        stopPowerCycling();
-      }
-    };
-
-    powerCycleIntervalRef.current = {
-      stop: () => {
-        shouldContinue = false;
-        addDebugLog("Stop requested");
-      },
-    } as any;
-    addDebugLog("Starting first cycle...");
-    runCycles();
-  };
-
   const stopPowerCycling = () => {
-    if (powerCycleIntervalRef.current) {
-      if (
-        typeof powerCycleIntervalRef.current === "object" &&
-        "stop" in powerCycleIntervalRef.current
-      ) {
-        (powerCycleIntervalRef.current as any).stop();
-      } else {
-        clearTimeout(powerCycleIntervalRef.current as number);
-      }
-      powerCycleIntervalRef.current = null;
-    }
+    signAbortRef.current?.abort();
+    signAbortRef.current = null;
     stopScan();
     setIsScanning(false);
     setIsFieldActive(false);
@@ -600,6 +589,11 @@ const App = () => {
                           <Copy className="w-4 h-4 text-gray-400" />
                         )}
                       </button>
+                      {fingerprintOf(publicKey) && (
+                        <p className="mt-1 text-xs text-gray-500 font-mono">
+                          Fingerprint {fingerprintOf(publicKey)}
+                        </p>
+                      )}
                     </div>
                   )}
                 </div>
@@ -619,6 +613,15 @@ const App = () => {
                 rows={4}
                 placeholder="Enter message to sign..."
               />
+              <p
+                className={`mt-1 text-xs text-right ${
+                  messageSize.fits ? "text-gray-500" : "text-red-400"
+                }`}
+              >
+                {messageSize.fits
+                  ? `${messageSize.remaining} of ${messageSize.capacity} bytes left on the tag`
+                  : `${-messageSize.remaining} bytes too long for the tag`}
+              </p>
             </div>
 
             {/* Field status */}
@@ -646,12 +649,26 @@ const App = () => {
                     )}
                   </div>
                 </div>
-                {!tagInRange && status === "computing" && (
+                {presence === "leaving" && status === "computing" && (
                   <div className="flex items-center gap-2 text-orange-400 text-sm">
                     <AlertCircle className="w-4 h-4" />
-                    <span>Hold phone near tag to power the chip</span>
+                    <span>Hold your phone still over the tag</span>
                   </div>
                 )}
+                {presence === "lost" && status === "computing" && (
+                  <div className="flex items-center gap-2 text-orange-400 text-sm">
+                    <AlertCircle className="w-4 h-4" />
+                    <span>Tag lost. Bring your phone back to the tag</span>
+                  </div>
+                )}
+                {presence === "present" &&
+                  stalled &&
+                  status === "computing" && (
+                    <div className="flex items-center gap-2 text-orange-400 text-sm">
+                      <AlertCircle className="w-4 h-4" />
+                      <span>No progress. Try repositioning your phone</span>
+                    </div>
+                  )}
               </div>
             )}
 
@@ -666,6 +683,11 @@ const App = () => {
                         ({stepsRemaining}/{stepsTotal} steps)
                       </span>
                     )}
+                    {etaMs !== null && (
+                      <span className="text-gray-500 ml-2">
+                        ~{Math.ceil(etaMs / 1000)}s left
+                      </span>
+                    )}
                   </span>
                   <span className="text-sm font-bold text-blue-400">
                     {progress}%
@@ -729,7 +751,7 @@ const App = () => {
               {status === "idle" || status === "done" ? (
                 <button
                   onClick={handleSign}
-                  disabled={!message.trim()}
+                  disabled={!message.trim() || !messageSize.fits}
                   className="flex-1 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 shadow-lg"
                 >
                   <Radio className="w-5 h-5" />
@@ -753,7 +775,7 @@ const App = () => {
                     Debug Logs
                   </label>
                   <button
-                    onClick={() => setDebugLogs([])}
+                    onClick={clearDebugLogs}
                     className="text-xs text-gray-500 hover:text-gray-300"
                   >
                     Clear
@@ -765,7 +787,7 @@ const App = () => {
                       key={idx}
                       className="text-xs text-gray-400 font-mono mb-1"
                     >
-                      {log}
+                      {formatEntry(log)}
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,95 @@
+import { SigningError } from "./errors";
+import type { NfcSession } from "./session";
+import { signMessage, type SignOpts } from "./sign";
+import { verifySignature } from "./verify";
+
+export type AuthVerdict =
+  "genuine" | "key-mismatch" | "bad-signature" | "timeout";
+
+export type AuthOpts = Pick<
+  SignOpts,
+  "signal" | "onProgress" | "maxDurationMs" | "maxCycles"
+> & {
+  // Key the tag must prove possession of; any self-consistent key otherwise
+  expectedPublicKey?: string;
+  // Random challenge size in bytes (default 32)
+  challengeBytes?: number;
+};
+
+export type AuthResult = {
+  verdict: AuthVerdict;
+  tagId: string | undefined;
+  challenge: string;
+  publicKey?: string;
+  signature?: string;
+};
+
+// Prefix keeps the challenge from ever looking like a firmware status
+const CHALLENGE_PREFIX = "auth:";
+
+function randomChallenge(bytes: number) {
+  const buf = new Uint8Array(bytes);
+  globalThis.crypto.getRandomValues(buf);
+  let hex = "";
+  for (const b of buf) hex += b.toString(16).padStart(2, "0");
+  return CHALLENGE_PREFIX + hex;
+}
+
+/**
+ * Proves the tag holds the private key for its public key: writes a fresh
+ * random challenge, lets the tag sign it and verifies the result.
+ *
+ * A cloned tag can replay a public key but cannot sign a challenge it has
+ * never seen. Aborts and device errors reject with `SigningError`; running
+ * out of time, including a tag that never reports its key, is reported as
+ * the `timeout` verdict. The challenge is never
+ * saved to the session's `signingState`, so it is not offered for resume.
+ */
+export async function authenticateTag(
+  session: NfcSession,
+  opts: AuthOpts = {}
+): Promise<AuthResult> {
+  const { expectedPublicKey, challengeBytes = 32, ...signOpts } = opts;
+  const challenge = randomChallenge(challengeBytes);
+
+  // Tag that answered, so a timeout still says which one was challenged
+  let challenged: string | undefined;
+  const offReading = session.on("reading", (tagId, reading) => {
+    if (reading.kind === "status" && tagId !== undefined) challenged = tagId;
+  });
+
+  let result;
+  try {
+    // Let the tag report its own key so a mismatch can be told apart
+    result = await signMessage(session, challenge, {
+      ...signOpts,
+      verify: false,
+    });
+  } catch (e) {
+    if (
+      e instanceof SigningError &&
+      (e.reason === "timeout" ||
+        e.reason === "max-cycles" ||
+        e.reason === "no-public-key")
+    ) {
+      return { verdict: "timeout", tagId: challenged, challenge };
+    }
+    throw e;
+  } finally {
+    offReading();
+  }
+
+  const { signature, publicKey, tagId } = result;
+  const base = { tagId, challenge, publicKey, signature };
+
+  if (
+    expectedPublicKey &&
+    expectedPublicKey.toLowerCase() !== publicKey.toLowerCase()
+  ) {
+    return { verdict: "key-mismatch", ...base };
+  }
+  if (!verifySignature(challenge, signature, publicKey)) {
+    return { verdict: "bad-signature", ...base };
+  }
+  return { verdict: "genuine", ...base };
+}
@@ -0,0 +1,32 @@
+// Bitcoin-alphabet base58, the `z` encoding of multibase
+const ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+export function bytesToBase58(bytes: Uint8Array) {
+  let n = 0n;
+  for (const b of bytes) n = (n << 8n) | BigInt(b);
+  let out = "";
+  while (n > 0n) {
+    out = ALPHABET[Number(n % 58n)] + out;
+    n /= 58n;
+  }
+  // Each leading zero byte is written as a leading "1"
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) out = "1" + out;
+  return out;
+}
+
+export function base58ToBytes(text: string) {
+  let n = 0n;
+  for (const ch of text) {
+    const digit = ALPHABET.indexOf(ch);
+    if (digit < 0) throw new Error(`Invalid base58 character "${ch}"`);
+    n = n * 58n + BigInt(digit);
+  }
+  const body: number[] = [];
+  while (n > 0n) {
+    body.unshift(Number(n & 0xffn));
+    n >>= 8n;
+  }
+  let zeros = 0;
+  while (zeros < text.length && text[zeros] === "1") zeros++;
+  return new Uint8Array([...new Array(zeros).fill(0), ...body]);
+}
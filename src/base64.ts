@@ -0,0 +1,28 @@
+// btoa/atob work on binary strings and exist in browsers and Node 16+
+
+export function bytesToBase64(bytes: Uint8Array) {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+export function base64ToBytes(b64: string) {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Unpadded base64url (RFC 4648 §5), as used by JWK and JWS
+export function bytesToBase64Url(bytes: Uint8Array) {
+  return bytesToBase64(bytes)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function base64UrlToBytes(b64url: string) {
+  if (!/^[A-Za-z0-9_-]*$/.test(b64url)) throw new Error("Invalid base64url");
+  const b64 = b64url.replace(/-/g, "+").replace(/_/g, "/");
+  return base64ToBytes(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+}
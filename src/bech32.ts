@@ -0,0 +1,44 @@
+// Bech32 (BIP-173) as Cardano uses it: no 90-character limit, since
+// addresses and keys are longer than Bitcoin's
+const CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+function polymod(values: number[]) {
+  let chk = 1;
+  for (const v of values) {
+    const top = chk >> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ v;
+    for (let i = 0; i < 5; i++) if ((top >> i) & 1) chk ^= GENERATOR[i];
+  }
+  return chk;
+}
+
+function hrpExpand(hrp: string) {
+  const codes = [...hrp].map((c) => c.charCodeAt(0));
+  return [...codes.map((c) => c >> 5), 0, ...codes.map((c) => c & 31)];
+}
+
+function convertBits(data: ArrayLike<number>, from: number, to: number) {
+  let acc = 0;
+  let bits = 0;
+  const out: number[] = [];
+  const max = (1 << to) - 1;
+  for (let i = 0; i < data.length; i++) {
+    acc = (acc << from) | data[i];
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      out.push((acc >> bits) & max);
+    }
+  }
+  return { out, rest: bits, restValue: (acc << (to - bits)) & max };
+}
+
+export function bech32Encode(hrp: string, bytes: Uint8Array) {
+  const { out: words, rest, restValue } = convertBits(bytes, 8, 5);
+  if (rest > 0) words.push(restValue);
+  const values = [...hrpExpand(hrp), ...words, 0, 0, 0, 0, 0, 0];
+  const mod = polymod(values) ^ 1;
+  const checksum = [0, 1, 2, 3, 4, 5].map((i) => (mod >> (5 * (5 - i))) & 31);
+  return `${hrp}1${[...words, ...checksum].map((w) => CHARSET[w]).join("")}`;
+}
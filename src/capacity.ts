@@ -0,0 +1,96 @@
+import type { NdefMessageInit, NdefRecordInit } from "./transport";
+
+// LPC8N04 shared NFC memory: 64 pages of 4 bytes, 60 of them user data
+export const DEFAULT_NDEF_CAPACITY = 240;
+
+export type CapacityReport = {
+  // Bytes the write takes in the tag's data area, TLV framing included
+  size: number;
+  capacity: number;
+  // Negative when the write does not fit
+  remaining: number;
+  fits: boolean;
+};
+
+const utf8 = new TextEncoder();
+
+function byteLength(data: string | BufferSource | undefined) {
+  if (data === undefined) return 0;
+  return typeof data === "string" ? utf8.encode(data).length : data.byteLength;
+}
+
+// Web NFC labels text records with the document language unless told otherwise
+function defaultLang() {
+  return (globalThis as any).document?.documentElement?.lang || "en";
+}
+
+function typeLength(record: NdefRecordInit) {
+  switch (record.recordType) {
+    case "empty":
+      return 0;
+    case "text":
+    case "url":
+      return 1; // "T" / "U"
+    case "smart-poster":
+      return 2; // "Sp"
+    case "mime":
+      return byteLength(record.mediaType ?? "application/octet-stream");
+    case "absolute-url":
+      return byteLength(record.data as string | undefined);
+    default:
+      // External ("domain:type") and local (":type") record types
+      return byteLength(record.recordType.replace(/^:/, ""));
+  }
+}
+
+function payloadLength(record: NdefRecordInit) {
+  switch (record.recordType) {
+    case "empty":
+    case "absolute-url":
+      return 0;
+    case "text":
+      // Status byte (encoding flag and language length), language, text
+      return (
+        1 + byteLength(record.lang ?? defaultLang()) + byteLength(record.data)
+      );
+    case "url":
+      // Identifier code byte; prefix abbreviation is not assumed
+      return 1 + byteLength(record.data);
+    default:
+      return byteLength(record.data);
+  }
+}
+
+/**
+ * Encoded size of one NDEF record: header byte, type length, payload length
+ * (1 byte for short records, 4 otherwise), optional ID length, then the type,
+ * ID and payload themselves.
+ */
+export function ndefRecordSize(record: NdefRecordInit) {
+  const type = typeLength(record);
+  const id = byteLength(record.id);
+  const payload = payloadLength(record);
+  const header = 2 + (payload < 256 ? 1 : 4) + (record.id ? 1 : 0);
+  return header + type + id + payload;
+}
+
+export function ndefMessageSize(message: NdefMessageInit) {
+  let size = 0;
+  for (const record of message.records) size += ndefRecordSize(record);
+  return size;
+}
+
+// Footprint in a Type 2 tag data area: NDEF TLV header, message, terminator
+export function ndefTlvSize(message: NdefMessageInit) {
+  const length = ndefMessageSize(message);
+  return 1 + (length < 255 ? 1 : 3) + length + 1;
+}
+
+export function measureNdef(
+  message: NdefMessageInit | null,
+  capacity: number
+): CapacityReport {
+  const size = message ? ndefTlvSize(message) : 0;
+  const remaining = capacity - size;
+  return { size, capacity, remaining, fits: remaining >= 0 };
+}
@@ -0,0 +1,197 @@
+import { blake2b } from "@noble/hashes/blake2b";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { bech32Encode } from "./bech32";
+import { encodeCbor, type CborValue } from "./cbor";
+import { SigningError } from "./errors";
+import { normalizePublicKey } from "./keys";
+import type { SignBytesOpts, SignResult } from "./sign";
+
+// Cardano helpers on top of the tag's Ed25519 key, which is a valid
+// Cardano payment key. The tag always signs in "pure" mode here: Cardano
+// signs the 32-byte transaction hash, and CIP-8 the Sig_structure bytes.
+
+export type CardanoNetwork = "mainnet" | "testnet";
+
+/**
+ * Anything that can have the tag sign raw bytes: an `NfcSession` or the
+ * object returned by `useWebNfc`.
+ */
+export type BytesSigner = {
+  signBytes(data: Uint8Array, opts?: SignBytesOpts): Promise<SignResult>;
+};
+
+export type CardanoSignOpts = Omit<SignBytesOpts, "prehash">;
+
+export type CardanoWitness = {
+  // CBOR VKeyWitness [vkey, signature], hex
+  witness: string;
+  // blake2b-256 of the transaction body, hex
+  txHash: string;
+  publicKey: string;
+  signature: string;
+  tagId: string | undefined;
+};
+
+export type CardanoDataSignOpts = CardanoSignOpts & {
+  // Tag key; required because the address goes into the signed header
+  publicKey: string;
+  network?: CardanoNetwork;
+  // Sign blake2b-224(payload) instead of the payload (CIP-8 "hashed")
+  hashed?: boolean;
+};
+
+/**
+ * CIP-30 `DataSignature`: `signature` is the CBOR `COSE_Sign1` and `key`
+ * the CBOR `COSE_Key`, both hex.
+ */
+export type CardanoDataSignature = {
+  signature: string;
+  key: string;
+  address: string;
+  tagId: string | undefined;
+};
+
+const NETWORK_IDS: Record<CardanoNetwork, number> = { mainnet: 1, testnet: 0 };
+const ADDRESS_PREFIXES: Record<CardanoNetwork, string> = {
+  mainnet: "addr",
+  testnet: "addr_test",
+};
+// Shelley enterprise address, key-hash payment credential (CIP-19 type 6)
+const ENTERPRISE_KEY_HEADER = 0b0110_0000;
+
+// COSE (RFC 9052) labels
+const COSE_ALG = 1;
+const COSE_ALG_EDDSA = -8;
+const COSE_KEY_KTY = 1;
+const COSE_KEY_KTY_OKP = 1;
+const COSE_KEY_ALG = 3;
+const COSE_KEY_CRV = -1;
+const COSE_KEY_CRV_ED25519 = 6;
+const COSE_KEY_X = -2;
+
+function cborBytes(input: Uint8Array | string, what: string) {
+  try {
+    return typeof input === "string" ? hexToBytes(input.trim()) : input;
+  } catch (e) {
+    throw new TypeError(`${what} must be bytes or hex`, { cause: e });
+  }
+}
+
+// Raw address bytes: header (type | network id) then blake2b-224(key)
+function enterpriseAddressBytes(publicKeyHex: string, network: CardanoNetwork) {
+  const keyHash = blake2b(hexToBytes(normalizePublicKey(publicKeyHex)), {
+    dkLen: 28,
+  });
+  return new Uint8Array([
+    ENTERPRISE_KEY_HEADER | NETWORK_IDS[network],
+    ...keyHash,
+  ]);
+}
+
+/**
+ * Bech32 enterprise address (no staking part) whose payment credential is
+ * the tag key: `addr1v...` on mainnet, `addr_test1v...` on testnets.
+ * Throws `KeyFormatError` for anything that is not a valid Ed25519 key.
+ */
+export function cardanoEnterpriseAddress(
+  publicKeyHex: string,
+  network: CardanoNetwork = "mainnet"
+): string {
+  return bech32Encode(
+    ADDRESS_PREFIXES[network],
+    enterpriseAddressBytes(publicKeyHex, network)
+  );
+}
+
+/**
+ * Has the tag witness a Cardano transaction: hashes the CBOR transaction
+ * body with blake2b-256, signs the hash on the tag and returns the
+ * `VKeyWitness` to add to the witness set. The body is not parsed beyond
+ * checking that it is a CBOR map.
+ */
+export async function signCardanoTransaction(
+  signer: BytesSigner,
+  txBody: Uint8Array | string,
+  opts: CardanoSignOpts = {}
+): Promise<CardanoWitness> {
+  const body = cborBytes(txBody, "Transaction body");
+  if (body.length === 0 || body[0] >> 5 !== 5) {
+    throw new TypeError("Transaction body must be a CBOR map");
+  }
+  const txHash = blake2b(body, { dkLen: 32 });
+  const result = await signer.signBytes(txHash, opts);
+  const witness = encodeCbor([
+    hexToBytes(result.publicKey),
+    hexToBytes(result.signature),
+  ]);
+  return {
+    witness: bytesToHex(witness),
+    txHash: bytesToHex(txHash),
+    publicKey: result.publicKey,
+    signature: result.signature,
+    tagId: result.tagId,
+  };
+}
+
+/**
+ * CIP-8 message signing as CIP-30 `signData` does it: a `COSE_Sign1` with
+ * EdDSA and the tag's enterprise address in the protected header. The tag
+ * signs the whole Sig_structure, so long payloads need `hashed: true` to fit
+ * on the tag. A string payload is signed as its UTF-8 bytes.
+ */
+export async function signCardanoData(
+  signer: BytesSigner,
+  payload: Uint8Array | string,
+  opts: CardanoDataSignOpts
+): Promise<CardanoDataSignature> {
+  const { network = "mainnet", hashed = false, ...signOpts } = opts;
+  if (!opts.publicKey) {
+    throw new SigningError(
+      "no-public-key",
+      "signCardanoData needs the tag's publicKey for the address header"
+    );
+  }
+  const publicKey = normalizePublicKey(opts.publicKey);
+  const addressBytes = enterpriseAddressBytes(publicKey, network);
+  const data =
+    typeof payload === "string" ? new TextEncoder().encode(payload) : payload;
+  const signedPayload = hashed ? blake2b(data, { dkLen: 28 }) : data;
+
+  const protectedHeader = encodeCbor(
+    new Map<CborValue, CborValue>([
+      [COSE_ALG, COSE_ALG_EDDSA],
+      ["address", addressBytes],
+    ])
+  );
+  const sigStructure = encodeCbor([
+    "Signature1",
+    protectedHeader,
+    new Uint8Array(0), // external_aad
+    signedPayload,
+  ]);
+  const result = await signer.signBytes(sigStructure, {
+    ...signOpts,
+    publicKey,
+  });
+
+  const coseSign1 = encodeCbor([
+    protectedHeader,
+    new Map<CborValue, CborValue>([["hashed", hashed]]),
+    signedPayload,
+    hexToBytes(result.signature),
+  ]);
+  const coseKey = encodeCbor(
+    new Map<CborValue, CborValue>([
+      [COSE_KEY_KTY, COSE_KEY_KTY_OKP],
+      [COSE_KEY_ALG, COSE_ALG_EDDSA],
+      [COSE_KEY_CRV, COSE_KEY_CRV_ED25519],
+      [COSE_KEY_X, hexToBytes(result.publicKey)],
+    ])
+  );
+  return {
+    signature: bytesToHex(coseSign1),
+    key: bytesToHex(coseKey),
+    address: bech32Encode(ADDRESS_PREFIXES[network], addressBytes),
+    tagId: result.tagId,
+  };
+}
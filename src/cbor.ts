@@ -0,0 +1,187 @@
+// Minimal CBOR (RFC 8949) codec for the receipt and COSE formats: integers,
+// byte and text strings, arrays, maps, tags and simple values. Definite
+// lengths only; the encoder always picks the shortest length encoding.
+
+export class CborTag {
+  readonly tag: number;
+  readonly value: CborValue;
+
+  constructor(tag: number, value: CborValue) {
+    this.tag = tag;
+    this.value = value;
+  }
+}
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | Uint8Array
+  | boolean
+  | null
+  | undefined
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | CborTag;
+
+const utf8 = new TextEncoder();
+
+function head(major: number, length: number | bigint, out: number[]) {
+  const n = BigInt(length);
+  const m = major << 5;
+  if (n < 24n) out.push(m | Number(n));
+  else if (n < 0x100n) out.push(m | 24, Number(n));
+  else if (n < 0x10000n) out.push(m | 25, Number(n >> 8n), Number(n & 0xffn));
+  else if (n < 0x100000000n) {
+    out.push(m | 26);
+    for (let s = 24n; s >= 0n; s -= 8n) out.push(Number((n >> s) & 0xffn));
+  } else {
+    out.push(m | 27);
+    for (let s = 56n; s >= 0n; s -= 8n) out.push(Number((n >> s) & 0xffn));
+  }
+}
+
+function encodeInto(value: CborValue, out: number[]) {
+  if (typeof value === "number" || typeof value === "bigint") {
+    if (typeof value === "number" && !Number.isSafeInteger(value)) {
+      throw new Error(`CBOR: only integers are supported, got ${value}`);
+    }
+    const n = BigInt(value);
+    if (n >= 0n) head(0, n, out);
+    else head(1, -1n - n, out);
+  } else if (typeof value === "string") {
+    const bytes = utf8.encode(value);
+    head(3, bytes.length, out);
+    for (const b of bytes) out.push(b);
+  } else if (value instanceof Uint8Array) {
+    head(2, value.length, out);
+    for (const b of value) out.push(b);
+  } else if (Array.isArray(value)) {
+    head(4, value.length, out);
+    for (const item of value) encodeInto(item, out);
+  } else if (value instanceof Map) {
+    head(5, value.size, out);
+    for (const [k, v] of value) {
+      encodeInto(k, out);
+      encodeInto(v, out);
+    }
+  } else if (value instanceof CborTag) {
+    head(6, value.tag, out);
+    encodeInto(value.value, out);
+  } else if (value === false) out.push(0xf4);
+  else if (value === true) out.push(0xf5);
+  else if (value === null) out.push(0xf6);
+  else if (value === undefined) out.push(0xf7);
+  else throw new Error("CBOR: unsupported value");
+}
+
+export function encodeCbor(value: CborValue): Uint8Array {
+  const out: number[] = [];
+  encodeInto(value, out);
+  return new Uint8Array(out);
+}
+
+class Reader {
+  pos = 0;
+  private bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  byte() {
+    if (this.pos >= this.bytes.length) throw new Error("CBOR: unexpected end");
+    return this.bytes[this.pos++];
+  }
+
+  take(n: number) {
+    if (this.pos + n > this.bytes.length) {
+      throw new Error("CBOR: unexpected end");
+    }
+    const out = this.bytes.slice(this.pos, this.pos + n);
+    this.pos += n;
+    return out;
+  }
+
+  get done() {
+    return this.pos === this.bytes.length;
+  }
+}
+
+function readLength(r: Reader, info: number): bigint {
+  if (info < 24) return BigInt(info);
+  const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[info];
+  if (!size) throw new Error("CBOR: indefinite lengths are not supported");
+  let n = 0n;
+  for (let i = 0; i < size; i++) n = (n << 8n) | BigInt(r.byte());
+  return n;
+}
+
+function toInt(n: bigint): number | bigint {
+  return n <= BigInt(Number.MAX_SAFE_INTEGER) &&
+    n >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(n)
+    : n;
+}
+
+function smallLength(n: bigint) {
+  if (n > 0xffffffffn) throw new Error("CBOR: length too large");
+  return Number(n);
+}
+
+function decodeFrom(r: Reader): CborValue {
+  const initial = r.byte();
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === 7) {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+    }
+    throw new Error("CBOR: floats and other simple values are not supported");
+  }
+
+  const n = readLength(r, info);
+  switch (major) {
+    case 0:
+      return toInt(n);
+    case 1:
+      return toInt(-1n - n);
+    case 2:
+      return r.take(smallLength(n));
+    case 3:
+      return new TextDecoder("utf-8", { fatal: true }).decode(
+        r.take(smallLength(n))
+      );
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < smallLength(n); i++) items.push(decodeFrom(r));
+      return items;
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < smallLength(n); i++) {
+        const key = decodeFrom(r);
+        map.set(key, decodeFrom(r));
+      }
+      return map;
+    }
+    default:
+      return new CborTag(smallLength(n), decodeFrom(r));
+  }
+}
+
+// Decodes exactly one item; trailing bytes are an error
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const r = new Reader(bytes);
+  const value = decodeFrom(r);
+  if (!r.done) throw new Error("CBOR: trailing bytes");
+  return value;
+}
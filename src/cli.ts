@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+import { readdir, readFile, stat } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import type { NfcReading } from "./parser";
+import { createDefaultProtocols } from "./protocol";
+import { verifyReceipt, type ReceiptVerification } from "./receipt";
+import { replayTranscript, type ReplayedReading } from "./transcript";
+import { verifySignature, type SignatureMode } from "./verify";
+
+// Exit codes: 0 valid, 1 invalid, 2 bad usage or unreadable input
+const EXIT_VALID = 0;
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage:
+  asymmetric-nfc verify --signature <hex> --public-key <hex>
+                        [--message <text> | --message-file <path>]
+                        [--mode pure|ed25519ph]
+      Verifies a tag signature. Reads the message from stdin when neither
+      --message nor --message-file is given.
+
+  asymmetric-nfc verify --receipt <file> [--message-file <path>]
+                        [--public-key <hex>] [--challenge <nonce>]
+      Verifies a JSON or CBOR receipt (.cbor). --message-file supplies the
+      document of a detached receipt.
+
+  asymmetric-nfc verify --dir <directory> [--public-key <hex>]
+      Verifies every .json and .cbor receipt in a directory against the
+      message it embeds.
+
+  asymmetric-nfc transcript <file> [--protocol <version>] [--json]
+      Replays a recorded NDEF transcript and prints the parsed readings.
+
+Exit status: 0 valid, 1 invalid, 2 usage or input error.`;
+
+class UsageError extends Error {}
+
+const HEX64 = /^[0-9a-fA-F]{64}$/;
+const HEX128 = /^[0-9a-fA-F]{128}$/;
+
+async function readStdin(): Promise<Uint8Array> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+async function readInput(path: string): Promise<Uint8Array> {
+  return path === "-" ? readStdin() : new Uint8Array(await readFile(path));
+}
+
+function requireHex(name: string, value: string | undefined, re: RegExp) {
+  if (value === undefined) throw new UsageError(`--${name} is required`);
+  if (!re.test(value.trim())) {
+    throw new UsageError(`--${name} must be ${re === HEX64 ? 64 : 128} hex`);
+  }
+  return value.trim();
+}
+
+async function loadReceipt(path: string, opts: VerifyFlags) {
+  const bytes = await readInput(path);
+  // JSON receipts are objects; anything else is taken as CBOR
+  const text = new TextDecoder().decode(bytes).trim();
+  const input =
+    extname(path).toLowerCase() === ".cbor" || !text.startsWith("{")
+      ? bytes
+      : text;
+  const message =
+    opts["message-file"] !== undefined
+      ? await readInput(opts["message-file"])
+      : opts.message;
+  return verifyReceipt(input, {
+    message,
+    publicKey: opts["public-key"],
+    challenge: opts.challenge,
+  });
+}
+
+function describe(result: ReceiptVerification) {
+  const r = result.receipt;
+  if (!r) return `${result.verdict}: ${result.error}`;
+  const parts = [result.verdict, `key ${r.publicKey}`, `mode ${r.mode}`];
+  if (r.tagId) parts.push(`tag ${r.tagId}`);
+  if (r.firmware) parts.push(`firmware ${r.firmware}`);
+  parts.push(`signed ${new Date(r.signedAt).toISOString()}`);
+  return parts.join(", ");
+}
+
+type VerifyFlags = {
+  message?: string;
+  "message-file"?: string;
+  signature?: string;
+  "public-key"?: string;
+  mode?: string;
+  receipt?: string;
+  dir?: string;
+  challenge?: string;
+};
+
+async function verifyCommand(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      message: { type: "string", short: "m" },
+      "message-file": { type: "string", short: "f" },
+      signature: { type: "string", short: "s" },
+      "public-key": { type: "string", short: "k" },
+      mode: { type: "string" },
+      receipt: { type: "string", short: "r" },
+      dir: { type: "string", short: "d" },
+      challenge: { type: "string", short: "c" },
+    },
+  });
+  const flags: VerifyFlags = values;
+
+  if (flags.dir !== undefined) {
+    // Every receipt is checked against its own embedded message
+    if (flags.message !== undefined || flags["message-file"] !== undefined) {
+      throw new UsageError(
+        "--dir cannot be combined with --message or --message-file"
+      );
+    }
+    return verifyDirectory(flags.dir, flags);
+  }
+
+  if (flags.receipt !== undefined) {
+    const result = await loadReceipt(flags.receipt, flags);
+    console.log(`${result.valid ? "VALID" : "INVALID"}: ${describe(result)}`);
+    if (result.verdict === "malformed") return EXIT_USAGE;
+    return result.valid ? EXIT_VALID : EXIT_INVALID;
+  }
+
+  const signature = requireHex("signature", flags.signature, HEX128);
+  const publicKey = requireHex("public-key", flags["public-key"], HEX64);
+  const mode = (flags.mode ?? "pure") as SignatureMode;
+  if (mode !== "pure" && mode !== "ed25519ph") {
+    throw new UsageError("--mode must be pure or ed25519ph");
+  }
+  if (flags.message !== undefined && flags["message-file"] !== undefined) {
+    throw new UsageError("Pass either --message or --message-file");
+  }
+  const message =
+    flags.message ?? (await readInput(flags["message-file"] ?? "-"));
+
+  const valid = verifySignature(message, signature, publicKey, mode);
+  console.log(valid ? "VALID" : "INVALID: signature does not verify");
+  return valid ? EXIT_VALID : EXIT_INVALID;
+}
+
+async function verifyDirectory(dir: string, flags: VerifyFlags) {
+  const candidates = (await readdir(dir))
+    .filter((n) => [".json", ".cbor"].includes(extname(n).toLowerCase()))
+    .sort();
+  // Only files count towards the summary; a directory named x.json does not
+  const names: string[] = [];
+  for (const name of candidates) {
+    if ((await stat(join(dir, name))).isFile()) names.push(name);
+  }
+  let invalid = 0;
+  for (const name of names) {
+    const path = join(dir, name);
+    const result = await loadReceipt(path, flags);
+    if (!result.valid) invalid++;
+    console.log(
+      `${result.valid ? "VALID  " : "INVALID"} ${name}: ${describe(result)}`
+    );
+  }
+  console.log(`${names.length - invalid}/${names.length} receipts valid`);
+  return invalid === 0 ? EXIT_VALID : EXIT_INVALID;
+}
+
+function formatReading(reading: NfcReading): string {
+  switch (reading.kind) {
+    case "status": {
+      const { kind: _kind, state, ...rest } = reading;
+      const fields = Object.entries(rest)
+        .filter(([, v]) => v !== undefined)
+        .map(
+          ([k, v]) => `${k}=${typeof v === "object" ? JSON.stringify(v) : v}`
+        );
+      return [state, ...fields].join(" ");
+    }
+    case "device-info":
+      return `device-info ${reading.rawText}`;
+    case "json":
+      return `json ${JSON.stringify(reading.data)}`;
+    case "raw-text":
+      return `raw-text ${JSON.stringify(reading.text)}`;
+  }
+}
+
+async function transcriptCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      protocol: { type: "string", short: "p" },
+      json: { type: "boolean" },
+    },
+  });
+  if (positionals.length !== 1) {
+    throw new UsageError("transcript takes exactly one file");
+  }
+  const protocols = createDefaultProtocols();
+  if (values.protocol !== undefined && !protocols.get(values.protocol)) {
+    throw new UsageError(
+      `--protocol must be one of ${protocols.list().join(", ")}`
+    );
+  }
+  const transcript = JSON.parse(
+    new TextDecoder().decode(await readInput(positionals[0]))
+  );
+  const { readings, errors } = await replayTranscript(transcript, {
+    protocol: values.protocol,
+  });
+
+  if (values.json) {
+    console.log(
+      JSON.stringify({ readings, errors: errors.map(String) }, null, 2)
+    );
+  } else {
+    readings.forEach(({ ts, tagId, reading }: ReplayedReading) =>
+      console.log(
+        `${new Date(ts).toISOString()}  ${tagId ?? "-"}  ${formatReading(reading)}`
+      )
+    );
+    for (const err of errors) console.error(`${err.name}: ${err.message}`);
+  }
+  return errors.length ? EXIT_INVALID : EXIT_VALID;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  try {
+    switch (command) {
+      case "verify":
+        return await verifyCommand(rest);
+      case "transcript":
+        return await transcriptCommand(rest);
+      case undefined:
+      case "help":
+      case "--help":
+      case "-h":
+        console.log(USAGE);
+        return command ? EXIT_VALID : EXIT_USAGE;
+    }
+    throw new UsageError(`Unknown command: ${command}`);
+  } catch (e: any) {
+    console.error(`error: ${e?.message ?? e}`);
+    if (e instanceof UsageError) console.error(`\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,154 @@
+import { CommandEncodingError } from "./errors";
+import { PREHASH_DIGEST_BYTES } from "./prehash";
+import type { NdefMessageInit } from "./transport";
+
+export type EdSignCommand =
+  | { op: "getPublicKey" }
+  | { op: "sign"; message: string }
+  // Raw bytes, signed as plain Ed25519
+  | { op: "signBytes"; data: Uint8Array }
+  // SHA-512 digest of a document, signed as Ed25519ph
+  | { op: "signDigest"; digest: Uint8Array }
+  | { op: "getStatus" }
+  | { op: "reset" };
+
+/**
+ * How commands are put on the tag.
+ *
+ * - `mime`: one `application/vnd.edsign+json` record, e.g.
+ *   `{"op":"sign","message":"..."}`. Unambiguous for any message.
+ * - `legacy`: what current firmware understands. `getPublicKey` is the text
+ *   `pubkey`, `sign` writes the message as plain text, `getStatus` writes
+ *   nothing (the status is read by scanning) and `reset` is unsupported.
+ *
+ * `signBytes` and `signDigest` carry binary data and are written the same way
+ * in both encodings: one record of type `EDSIGN_BYTES_MIME_TYPE` or
+ * `EDSIGN_PREHASH_MIME_TYPE` whose payload is the data or the digest.
+ */
+export type CommandEncoding = "mime" | "legacy";
+
+export const EDSIGN_MIME_TYPE = "application/vnd.edsign+json";
+export const EDSIGN_BYTES_MIME_TYPE = "application/vnd.edsign.bytes";
+export const EDSIGN_PREHASH_MIME_TYPE = "application/vnd.edsign.ed25519ph";
+
+const LEGACY_PUBKEY = "pubkey";
+
+// Returns null when the command needs no write in this encoding
+export function encodeCommand(
+  cmd: EdSignCommand,
+  encoding: CommandEncoding = "legacy"
+): NdefMessageInit | null {
+  if (cmd.op === "signBytes") return binary(EDSIGN_BYTES_MIME_TYPE, cmd.data);
+  if (cmd.op === "signDigest") {
+    if (cmd.digest.length !== PREHASH_DIGEST_BYTES) {
+      throw new CommandEncodingError(
+        cmd.op,
+        `signDigest needs a ${PREHASH_DIGEST_BYTES}-byte SHA-512 digest`
+      );
+    }
+    return binary(EDSIGN_PREHASH_MIME_TYPE, cmd.digest);
+  }
+
+  if (encoding === "mime") {
+    return {
+      records: [
+        {
+          recordType: "mime",
+          mediaType: EDSIGN_MIME_TYPE,
+          data: new TextEncoder().encode(JSON.stringify(cmd)),
+        },
+      ],
+    };
+  }
+
+  switch (cmd.op) {
+    case "getPublicKey":
+      return text(LEGACY_PUBKEY);
+    case "sign":
+      if (cmd.message.trim() === LEGACY_PUBKEY) {
+        throw new CommandEncodingError(
+          cmd.op,
+          `"${LEGACY_PUBKEY}" cannot be signed with the legacy encoding; use "mime"`
+        );
+      }
+      return text(cmd.message);
+    case "getStatus":
+      return null;
+    case "reset":
+      throw new CommandEncodingError(
+        cmd.op,
+        "reset is not supported by the legacy encoding"
+      );
+  }
+}
+
+// Inverse of encodeCommand for a single record, as firmware would see it
+export function decodeCommand(record: {
+  recordType: string;
+  mediaType?: string;
+  data?: string | BufferSource;
+}): EdSignCommand | null {
+  const raw = record.data;
+
+  if (record.recordType === "mime" && typeof raw !== "string") {
+    const bytes = raw === undefined ? new Uint8Array() : toBytes(raw);
+    if (record.mediaType === EDSIGN_BYTES_MIME_TYPE) {
+      return { op: "signBytes", data: bytes };
+    }
+    if (record.mediaType === EDSIGN_PREHASH_MIME_TYPE) {
+      return bytes.length === PREHASH_DIGEST_BYTES
+        ? { op: "signDigest", digest: bytes }
+        : null;
+    }
+  }
+
+  const text =
+    typeof raw === "string"
+      ? raw
+      : raw === undefined
+        ? ""
+        : new TextDecoder().decode(raw);
+
+  if (record.recordType === "mime" && record.mediaType === EDSIGN_MIME_TYPE) {
+    try {
+      const cmd = JSON.parse(text);
+      switch (cmd?.op) {
+        case "getPublicKey":
+        case "getStatus":
+        case "reset":
+          return { op: cmd.op };
+        case "sign":
+          return typeof cmd.message === "string"
+            ? { op: "sign", message: cmd.message }
+            : null;
+      }
+    } catch {}
+    return null;
+  }
+
+  if (record.recordType === "text") {
+    return text.trim() === LEGACY_PUBKEY
+      ? { op: "getPublicKey" }
+      : { op: "sign", message: text };
+  }
+  return null;
+}
+
+function text(data: string): NdefMessageInit {
+  return { records: [{ recordType: "text", data }] };
+}
+
+function binary(mediaType: string, data: Uint8Array): NdefMessageInit {
+  // Copied so later changes to the caller's buffer cannot alter the write
+  return {
+    records: [{ recordType: "mime", mediaType, data: new Uint8Array(data) }],
+  };
+}
+
+function toBytes(data: BufferSource) {
+  return ArrayBuffer.isView(data)
+    ? new Uint8Array(
+        data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+      )
+    : new Uint8Array(data.slice(0));
+}
@@ -0,0 +1,190 @@
+// React-free entry point: `@uverify/asymmetric-nfc/core`
+export { NfcSession } from "./session";
+export {
+  decodeCommand,
+  EDSIGN_BYTES_MIME_TYPE,
+  EDSIGN_MIME_TYPE,
+  EDSIGN_PREHASH_MIME_TYPE,
+  encodeCommand,
+} from "./commands";
+export type { CommandEncoding, EdSignCommand } from "./commands";
+export type {
+  NfcSessionEvents,
+  NfcSessionOpts,
+  OnError,
+  OnReading,
+  StartOpts,
+  TagPresence,
+  TagState,
+} from "./session";
+export { authenticateTag } from "./authenticate";
+export type { AuthOpts, AuthResult, AuthVerdict } from "./authenticate";
+export {
+  IndexedDbTagKeyStorage,
+  LocalStorageTagKeyStorage,
+  MemoryTagKeyStorage,
+  TagKeyRegistry,
+} from "./registry";
+export type { TagKeyRecord, TagKeyStorage, TagTrust } from "./registry";
+export {
+  cardanoEnterpriseAddress,
+  signCardanoData,
+  signCardanoTransaction,
+} from "./cardano";
+export type {
+  BytesSigner,
+  CardanoDataSignature,
+  CardanoDataSignOpts,
+  CardanoNetwork,
+  CardanoSignOpts,
+  CardanoWitness,
+} from "./cardano";
+export { signJws, verifyJws } from "./jws";
+export type {
+  JwsHeader,
+  JwsSignOpts,
+  JwsVerdict,
+  JwsVerification,
+  SignedJws,
+  TextSigner,
+  VerifyJwsOpts,
+} from "./jws";
+export {
+  jwkThumbprint,
+  normalizePublicKey,
+  publicKeyFingerprint,
+  publicKeyFormats,
+  publicKeyFromDidKey,
+  publicKeyFromJwk,
+  publicKeyFromMultibase,
+  publicKeyFromPem,
+  publicKeyFromSpki,
+  publicKeyToDidKey,
+  publicKeyToJwk,
+  publicKeyToMultibase,
+  publicKeyToPem,
+  publicKeyToSpki,
+} from "./keys";
+export type { Ed25519Jwk, PublicKeyFormats } from "./keys";
+export {
+  challengeMessage,
+  createReceipt,
+  decodeReceipt,
+  encodeReceipt,
+  parseReceipt,
+  RECEIPT_JSON_SCHEMA,
+  verifyReceipt,
+} from "./receipt";
+export type {
+  Receipt,
+  ReceiptInput,
+  ReceiptVerdict,
+  ReceiptVerification,
+  VerifyReceiptOpts,
+} from "./receipt";
+export {
+  hashMessage,
+  LocalStorageSigningStateStorage,
+  MemorySigningStateStorage,
+} from "./resume";
+export type { PendingSigning, SigningStateStorage } from "./resume";
+export {
+  LocalStorageSigningQueueStorage,
+  MemorySigningQueueStorage,
+  SigningQueue,
+} from "./queue";
+export type {
+  QueueFailure,
+  QueueInput,
+  QueueItem,
+  QueueItemStatus,
+  QueueState,
+  QueueSummary,
+  SigningQueueEvents,
+  SigningQueueExport,
+  SigningQueueOpts,
+  SigningQueueStorage,
+} from "./queue";
+export { resumeSigning, signBytes, signMessage } from "./sign";
+export { ProgressTracker } from "./telemetry";
+export type { SigningTelemetry, TelemetryUpdate } from "./telemetry";
+export type {
+  ResumeOpts,
+  SignBytesOpts,
+  SignOpts,
+  SignProgress,
+  SignResult,
+} from "./sign";
+export {
+  DEFAULT_NDEF_CAPACITY,
+  measureNdef,
+  ndefMessageSize,
+  ndefRecordSize,
+  ndefTlvSize,
+} from "./capacity";
+export type { CapacityReport } from "./capacity";
+export {
+  CommandEncodingError,
+  DeviceReportedError,
+  KeyFormatError,
+  MessageTooLargeError,
+  NfcError,
+  NfcIoError,
+  NfcPermissionError,
+  NfcUnsupportedError,
+  ProtocolParseError,
+  ReceiptFormatError,
+  SigningError,
+  StorageError,
+  TagKeyConflictError,
+  TagMismatchError,
+  TagRemovedError,
+  TimeoutError,
+  UnknownProtocolError,
+} from "./errors";
+export type { SigningFailure } from "./errors";
+export {
+  createDefaultProtocols,
+  edSignLegacyProtocol,
+  edSignV2Protocol,
+  ProtocolRegistry,
+} from "./protocol";
+export type { ProtocolParser } from "./protocol";
+export {
+  parseEdSignTextStatus,
+  progressFromRemaining,
+  readTextRecords,
+  tryParseFromEvent,
+} from "./parser";
+export type {
+  DeviceInfoReading,
+  EdSignStatus,
+  JsonReading,
+  NfcReading,
+  RawTextReading,
+  StatusReading,
+} from "./parser";
+export {
+  entryToEvent,
+  replayTranscript,
+  ReplayTransport,
+  TranscriptRecorder,
+} from "./transcript";
+export type {
+  ReplayedReading,
+  Transcript,
+  TranscriptEntry,
+  TranscriptRecord,
+} from "./transcript";
+export { WebNfcTransport } from "./transport";
+export type {
+  NdefMessageInit,
+  NdefReadingEvent,
+  NdefRecord,
+  NdefRecordInit,
+  NfcTransport,
+} from "./transport";
+export { consoleLogger, TraceBuffer } from "./logger";
+export type { LogEntry, LogLevel, NfcLogger } from "./logger";
+export { verifySignature } from "./verify";
+export type { SignatureMode } from "./verify";
@@ -0,0 +1,22 @@
+type Listener<A extends unknown[]> = (...args: A) => void;
+
+// Minimal typed event emitter; avoids pulling in Node's EventEmitter so the
+// core runs unchanged in browsers and workers.
+export class Emitter<Events extends Record<string, unknown[]>> {
+  private listeners: { [E in keyof Events]?: Set<Listener<Events[E]>> } = {};
+
+  on<E extends keyof Events>(event: E, listener: Listener<Events[E]>) {
+    (this.listeners[event] ??= new Set()).add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends keyof Events>(event: E, listener: Listener<Events[E]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  protected emit<E extends keyof Events>(event: E, ...args: Events[E]) {
+    for (const listener of [...(this.listeners[event] ?? [])]) {
+      listener(...args);
+    }
+  }
+}
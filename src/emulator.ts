@@ -0,0 +1,479 @@
+import { ed25519 } from "@noble/curves/ed25519";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { ndefTlvSize } from "./capacity";
+import { decodeCommand, type EdSignCommand } from "./commands";
+import { ed25519phDigest } from "./prehash";
+import { TOTAL_STEPS } from "./parser";
+import type {
+  NdefMessageInit,
+  NdefReadingEvent,
+  NfcTransport,
+} from "./transport";
+
+type Phase =
+  "PH_IDLE" | "PH_INIT_K" | "PH_INIT_R" | "PH_R_WORK" | "PH_R_DONE" | "PH_DONE";
+
+export type EmulatorFault =
+  // Tag leaves the field; comes back after durationMs if given
+  | { type: "leave-field"; durationMs?: number }
+  // Next `count` readings carry only the first `keepChars` characters
+  | { type: "truncate"; count?: number; keepChars?: number }
+  // R counter stops moving for the next `reads` readings (until cleared if omitted)
+  | { type: "stuck-counter"; reads?: number }
+  // Next `count` readings reply with an error string instead of the status
+  | { type: "error-reply"; text?: string; count?: number };
+
+export type EdSignEmulatorOpts = {
+  // 32-byte Ed25519 seed as 64-hex or bytes; any other string is hashed
+  seed?: string | Uint8Array;
+  serialNumber?: string;
+  // "real" advances with wall-clock time, "manual" only through advance()
+  clock?: "real" | "manual";
+  initMs?: number;
+  stepMs?: number;
+  finalizeMs?: number;
+  // Delay between a scan starting and the reading event
+  readDelayMs?: number;
+  // Writes that do not fit fail like on a real tag; unlimited when omitted
+  ndefCapacity?: number;
+};
+
+type ActiveFaults = {
+  truncate?: { count: number; keepChars?: number };
+  stuck?: { reads: number };
+  error?: { text: string; count: number };
+};
+
+function seedBytes(seed: string | Uint8Array | undefined) {
+  if (seed instanceof Uint8Array) {
+    if (seed.length !== 32) throw new Error("Emulator seed must be 32 bytes");
+    return seed;
+  }
+  if (seed && /^[0-9a-fA-F]{64}$/.test(seed)) return hexToBytes(seed);
+  return sha256(new TextEncoder().encode(seed ?? "asymmetric-nfc-emulator"));
+}
+
+function abortError() {
+  const err = new Error("The scan was aborted");
+  err.name = "AbortError";
+  return err;
+}
+
+/**
+ * Software model of the LPC8N04 EdSign firmware.
+ *
+ * Mirrors the text protocol understood by `parseEdSignTextStatus`: the idle
+ * tag answers with its 64-hex public key; writing a message moves it through
+ * `PH_INIT_K`, `PH_INIT_R`, `R:i=<n>` (255 down to 0), `R:done` and finally
+ * the 128-hex signature. Computation only advances while the tag is in the
+ * field and a scan or write is powering it. Writes arriving mid-computation
+ * get `busy`. Legacy text, `application/vnd.edsign+json` commands and the
+ * binary `signBytes` / Ed25519ph digest records are understood.
+ *
+ * Use `createTransport()` with `NfcSession`, or `install()` to expose it as
+ * `window.NDEFReader` for the hook or the example app under jsdom.
+ */
+export class EdSignEmulator {
+  readonly publicKey: string;
+  readonly serialNumber: string;
+
+  private secretKey: Uint8Array;
+  private clock: "real" | "manual";
+  private initMs: number;
+  private stepMs: number;
+  private finalizeMs: number;
+  private readDelayMs: number;
+  private ndefCapacity: number | undefined;
+
+  private phase: Phase = "PH_IDLE";
+  private phaseElapsedMs = 0;
+  private stepsRemaining = TOTAL_STEPS;
+  private message: Uint8Array | null = null;
+  // The message is a SHA-512 digest to sign as Ed25519ph
+  private prehashed = false;
+  private signature: string | null = null;
+  private busyReplies = 0;
+
+  private inField = true;
+  private activeScans = new Set<EmulatedNdefReader>();
+  private writing = 0;
+  private lastSync = Date.now();
+  private faults: ActiveFaults = {};
+
+  constructor(opts: EdSignEmulatorOpts = {}) {
+    this.secretKey = seedBytes(opts.seed);
+    this.publicKey = bytesToHex(ed25519.getPublicKey(this.secretKey));
+    this.serialNumber = opts.serialNumber ?? "04:a2:5c:3a:9e:71:80";
+    this.clock = opts.clock ?? "real";
+    this.initMs = opts.initMs ?? 1000;
+    this.stepMs = opts.stepMs ?? 100;
+    this.finalizeMs = opts.finalizeMs ?? 1000;
+    this.readDelayMs = opts.readDelayMs ?? 30;
+    this.ndefCapacity = opts.ndefCapacity;
+  }
+
+  get powered() {
+    return this.inField && (this.activeScans.size > 0 || this.writing > 0);
+  }
+
+  get state() {
+    this.sync();
+    return {
+      phase: this.phase,
+      stepsRemaining: this.stepsRemaining,
+      inField: this.inField,
+      powered: this.powered,
+    };
+  }
+
+  // Advance computation by `ms` of powered time (no-op while unpowered)
+  advance(ms: number) {
+    if (!this.powered) return;
+    let budget = ms;
+    while (budget > 0 && this.phase !== "PH_IDLE" && this.phase !== "PH_DONE") {
+      // A stuck counter burns time without making progress
+      if (this.phase === "PH_R_WORK" && this.faults.stuck) break;
+      const needed = Math.max(0, this.phaseDuration() - this.phaseElapsedMs);
+      if (budget < needed) {
+        this.phaseElapsedMs += budget;
+        break;
+      }
+      budget -= needed;
+      this.completeStep();
+    }
+  }
+
+  enterField() {
+    this.sync();
+    this.inField = true;
+    // Tapping the tag delivers a reading to every active scan
+    for (const reader of this.activeScans) this.scheduleReading(reader);
+  }
+
+  leaveField() {
+    this.sync();
+    this.inField = false;
+  }
+
+  injectFault(fault: EmulatorFault) {
+    switch (fault.type) {
+      case "leave-field":
+        this.leaveField();
+        if (fault.durationMs !== undefined) {
+          setTimeout(() => this.enterField(), fault.durationMs);
+        }
+        break;
+      case "truncate":
+        this.faults.truncate = {
+          count: fault.count ?? 1,
+          keepChars: fault.keepChars,
+        };
+        break;
+      case "stuck-counter":
+        this.sync();
+        this.faults.stuck = { reads: fault.reads ?? Infinity };
+        break;
+      case "error-reply":
+        this.faults.error = {
+          text: fault.text ?? "ERR:crypto",
+          count: fault.count ?? 1,
+        };
+        break;
+    }
+  }
+
+  clearFaults() {
+    this.sync();
+    this.faults = {};
+  }
+
+  // Current reply as the firmware would put it in its NDEF text record
+  readText(): string {
+    this.sync();
+    let text = this.statusText();
+
+    const { error, truncate, stuck } = this.faults;
+    if (error) {
+      text = error.text;
+      if (--error.count <= 0) this.faults.error = undefined;
+    }
+    if (truncate) {
+      const keep = truncate.keepChars ?? Math.floor(text.length / 2);
+      text = text.slice(0, keep);
+      if (--truncate.count <= 0) this.faults.truncate = undefined;
+    }
+    if (stuck && this.phase === "PH_R_WORK" && --stuck.reads <= 0) {
+      this.faults.stuck = undefined;
+    }
+    return text;
+  }
+
+  // Handle a plain text write the way legacy-encoded commands arrive
+  receive(data: string | Uint8Array) {
+    const text =
+      typeof data === "string" ? data : new TextDecoder().decode(data);
+    this.execute(decodeCommand({ recordType: "text", data: text }));
+  }
+
+  // Run a decoded command; null stands for a record the firmware rejects
+  execute(cmd: EdSignCommand | null) {
+    this.sync();
+    if (!cmd) {
+      this.faults.error = { text: "ERR:cmd", count: 1 };
+      return;
+    }
+    if (cmd.op === "getStatus") return;
+    if (cmd.op === "reset") {
+      this.resetToIdle();
+      return;
+    }
+    if (this.phase !== "PH_IDLE" && this.phase !== "PH_DONE") {
+      this.busyReplies = 1;
+      return;
+    }
+    if (cmd.op === "getPublicKey") {
+      this.resetToIdle();
+      return;
+    }
+    this.prehashed = cmd.op === "signDigest";
+    this.message =
+      cmd.op === "sign"
+        ? new TextEncoder().encode(cmd.message)
+        : cmd.op === "signBytes"
+          ? cmd.data
+          : cmd.digest;
+    this.signature = null;
+    this.setPhase("PH_INIT_K");
+  }
+
+  // Drop RAM state as a full power loss would
+  reset() {
+    this.resetToIdle();
+    this.faults = {};
+    this.busyReplies = 0;
+  }
+
+  createTransport(): NfcTransport {
+    return new EmulatorTransport(new EmulatedNdefReader(this));
+  }
+
+  /**
+   * Installs a fake `NDEFReader` on `target` (defaults to `globalThis`) whose
+   * instances are backed by this emulator. Returns an uninstall function.
+   */
+  install(target: any = globalThis) {
+    const hadOwn = Object.prototype.hasOwnProperty.call(target, "NDEFReader");
+    const previous = target.NDEFReader;
+    const emulator = this;
+    target.NDEFReader = class extends EmulatedNdefReader {
+      constructor() {
+        super(emulator);
+      }
+    };
+    return () => {
+      if (hadOwn) target.NDEFReader = previous;
+      else delete target.NDEFReader;
+    };
+  }
+
+  /** @internal */
+  startScan(reader: EmulatedNdefReader, signal: AbortSignal) {
+    if (signal.aborted) throw abortError();
+    this.sync();
+    this.activeScans.add(reader);
+    signal.addEventListener(
+      "abort",
+      () => {
+        this.sync();
+        this.activeScans.delete(reader);
+      },
+      { once: true }
+    );
+    if (this.inField) this.scheduleReading(reader);
+  }
+
+  /** @internal */
+  async write(message: NdefMessageInit | string, signal?: AbortSignal) {
+    if (signal?.aborted) throw abortError();
+    // Web NFC waits for a tag; the emulator fails fast instead
+    if (!this.inField) {
+      const err = new Error("No tag in range");
+      err.name = "NetworkError";
+      throw err;
+    }
+    const ndef: NdefMessageInit =
+      typeof message === "string"
+        ? { records: [{ recordType: "text", data: message }] }
+        : message;
+    if (
+      this.ndefCapacity !== undefined &&
+      ndefTlvSize(ndef) > this.ndefCapacity
+    ) {
+      const err = new Error("NDEF message does not fit on the tag");
+      err.name = "NetworkError";
+      throw err;
+    }
+    this.sync();
+    this.writing++;
+    try {
+      const record = ndef.records[0];
+      this.execute(record ? decodeCommand(record) : null);
+    } finally {
+      this.sync();
+      this.writing--;
+    }
+  }
+
+  private scheduleReading(reader: EmulatedNdefReader) {
+    setTimeout(() => {
+      if (!this.inField || !this.activeScans.has(reader)) return;
+      const data = new TextEncoder().encode(this.readText());
+      reader.deliver({
+        serialNumber: this.serialNumber,
+        message: {
+          records: [
+            {
+              recordType: "text",
+              encoding: "utf-8",
+              lang: "en",
+              data: new DataView(data.buffer),
+            },
+          ],
+        },
+      });
+    }, this.readDelayMs);
+  }
+
+  private statusText(): string {
+    if (this.busyReplies > 0) {
+      this.busyReplies--;
+      return "busy";
+    }
+    switch (this.phase) {
+      case "PH_IDLE":
+        return this.publicKey;
+      case "PH_INIT_K":
+        return "PH_INIT_K";
+      case "PH_INIT_R":
+        return "PH_INIT_R";
+      case "PH_R_WORK":
+        return `R:i=${this.stepsRemaining}`;
+      case "PH_R_DONE":
+        return "R:done";
+      case "PH_DONE":
+        return this.signature ?? "";
+    }
+  }
+
+  private sync() {
+    const now = Date.now();
+    if (this.clock === "real") this.advance(now - this.lastSync);
+    this.lastSync = now;
+  }
+
+  private phaseDuration() {
+    switch (this.phase) {
+      case "PH_INIT_K":
+      case "PH_INIT_R":
+        return this.initMs;
+      case "PH_R_WORK":
+        return this.stepMs;
+      case "PH_R_DONE":
+        return this.finalizeMs;
+      default:
+        return Infinity;
+    }
+  }
+
+  private completeStep() {
+    switch (this.phase) {
+      case "PH_INIT_K":
+        this.setPhase("PH_INIT_R");
+        break;
+      case "PH_INIT_R":
+        this.stepsRemaining = TOTAL_STEPS;
+        this.setPhase("PH_R_WORK");
+        break;
+      case "PH_R_WORK":
+        this.phaseElapsedMs = 0;
+        if (this.stepsRemaining > 0) this.stepsRemaining--;
+        else this.setPhase("PH_R_DONE");
+        break;
+      case "PH_R_DONE":
+        this.signature = bytesToHex(
+          (this.prehashed ? ed25519phDigest : ed25519).sign(
+            this.message ?? new Uint8Array(),
+            this.secretKey
+          )
+        );
+        this.setPhase("PH_DONE");
+        break;
+    }
+  }
+
+  private setPhase(phase: Phase) {
+    this.phase = phase;
+    this.phaseElapsedMs = 0;
+  }
+
+  private resetToIdle() {
+    this.message = null;
+    this.signature = null;
+    this.stepsRemaining = TOTAL_STEPS;
+    this.setPhase("PH_IDLE");
+  }
+}
+
+// NDEFReader look-alike backed by an emulator instance
+class EmulatedNdefReader extends EventTarget {
+  private emulator: EdSignEmulator;
+
+  constructor(emulator: EdSignEmulator) {
+    super();
+    this.emulator = emulator;
+  }
+
+  async scan(opts: { signal?: AbortSignal } = {}) {
+    this.emulator.startScan(this, opts.signal ?? new AbortController().signal);
+  }
+
+  async write(
+    message: NdefMessageInit | string,
+    opts: { signal?: AbortSignal } = {}
+  ) {
+    await this.emulator.write(message, opts.signal);
+  }
+
+  deliver(reading: NdefReadingEvent) {
+    this.dispatchEvent(Object.assign(new Event("reading"), reading));
+  }
+}
+
+class EmulatorTransport implements NfcTransport {
+  readonly isSupported = true;
+  private reader: EmulatedNdefReader;
+
+  constructor(reader: EmulatedNdefReader) {
+    this.reader = reader;
+  }
+
+  scan(opts: { signal: AbortSignal }) {
+    return this.reader.scan(opts);
+  }
+
+  write(message: NdefMessageInit, opts?: { signal?: AbortSignal }) {
+    return this.reader.write(message, opts);
+  }
+
+  onReading(listener: (event: NdefReadingEvent) => void) {
+    const handler = (e: Event) => listener(e as unknown as NdefReadingEvent);
+    this.reader.addEventListener("reading", handler);
+    return () => this.reader.removeEventListener("reading", handler);
+  }
+
+  onReadingError(listener: (event: unknown) => void) {
+    this.reader.addEventListener("readingerror", listener);
+    return () => this.reader.removeEventListener("readingerror", listener);
+  }
+}
@@ -0,0 +1,209 @@
+// Base class of every error the library rejects with or emits as "error"
+export class NfcError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "NfcError";
+  }
+}
+
+// No Web NFC (or no transport) on this device/browser
+export class NfcUnsupportedError extends NfcError {
+  constructor(message = "Web NFC not supported", options?: ErrorOptions) {
+    super(message, options);
+    this.name = "NfcUnsupportedError";
+  }
+}
+
+// The user or browser denied NFC access (NotAllowedError)
+export class NfcPermissionError extends NfcError {
+  constructor(message = "NFC permission denied", options?: ErrorOptions) {
+    super(message, options);
+    this.name = "NfcPermissionError";
+  }
+}
+
+// A scan, read or write failed at the transport level
+export class NfcIoError extends NfcError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "NfcIoError";
+  }
+}
+
+// The tag left the field while it was being written
+export class TagRemovedError extends NfcIoError {
+  constructor(message = "Tag was removed", options?: ErrorOptions) {
+    super(message, options);
+    this.name = "TagRemovedError";
+  }
+}
+
+// The firmware answered with an ERR status
+export class DeviceReportedError extends NfcError {
+  readonly deviceText: string;
+  readonly tagId: string | undefined;
+
+  constructor(deviceText: string, tagId?: string) {
+    super(`Tag reported an error: ${deviceText}`);
+    this.name = "DeviceReportedError";
+    this.deviceText = deviceText;
+    this.tagId = tagId;
+  }
+}
+
+// A signing result arrived from another tag than the one written to
+export class TagMismatchError extends NfcError {
+  readonly expectedTagId: string;
+  readonly tagId: string;
+
+  constructor(expectedTagId: string, tagId: string) {
+    super(
+      `Tag ${tagId} answered, but the message was written to ${expectedTagId}`
+    );
+    this.name = "TagMismatchError";
+    this.expectedTagId = expectedTagId;
+    this.tagId = tagId;
+  }
+}
+
+// The detected firmware parser did not understand a record
+export class ProtocolParseError extends NfcError {
+  readonly text: string;
+  readonly protocol: string | undefined;
+
+  constructor(text: string, protocol?: string) {
+    super(
+      protocol
+        ? `Unrecognized ${protocol} reply: ${text}`
+        : `Unrecognized reply: ${text}`
+    );
+    this.name = "ProtocolParseError";
+    this.text = text;
+    this.protocol = protocol;
+  }
+}
+
+// A pinned firmware protocol version that no registered parser provides
+export class UnknownProtocolError extends NfcError {
+  readonly version: string;
+
+  constructor(version: string) {
+    super(`Unknown firmware protocol: ${version}`);
+    this.name = "UnknownProtocolError";
+    this.version = version;
+  }
+}
+
+export class TimeoutError extends NfcError {
+  constructor(message = "Timed out", options?: ErrorOptions) {
+    super(message, options);
+    this.name = "TimeoutError";
+  }
+}
+
+export type SigningFailure =
+  | "unsupported"
+  | "aborted"
+  | "timeout"
+  | "max-cycles"
+  | "no-public-key"
+  | "device-error"
+  | "invalid-signature"
+  | "nfc-error"
+  | "too-large"
+  | "unsupported-command"
+  | "nothing-to-resume"
+  | "message-mismatch";
+
+// Rejection reason of signMessage(); `reason` is stable, `message` is not.
+// `cause` holds the underlying NfcError where there is one.
+export class SigningError extends NfcError {
+  readonly reason: SigningFailure;
+
+  constructor(reason: SigningFailure, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "SigningError";
+    this.reason = reason;
+  }
+}
+
+// A storage adapter failed to load or save, or held data it cannot read
+export class StorageError extends NfcError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "StorageError";
+  }
+}
+
+// Enrolling a different key for a tag serial that already has one
+export class TagKeyConflictError extends NfcError {
+  readonly serialNumber: string;
+
+  constructor(serialNumber: string) {
+    super(`Tag ${serialNumber} is already enrolled with a different key`);
+    this.name = "TagKeyConflictError";
+    this.serialNumber = serialNumber;
+  }
+}
+
+// A receipt that does not match the documented JSON or CBOR layout
+export class ReceiptFormatError extends NfcError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "ReceiptFormatError";
+  }
+}
+
+// A public key that is not a valid Ed25519 key in the expected format
+export class KeyFormatError extends NfcError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "KeyFormatError";
+  }
+}
+
+// A command the chosen encoding cannot express, or one with invalid data
+export class CommandEncodingError extends NfcError {
+  readonly op: string;
+
+  constructor(op: string, message: string) {
+    super(message);
+    this.name = "CommandEncodingError";
+    this.op = op;
+  }
+}
+
+// Write rejected before it reached the tag because it cannot fit
+export class MessageTooLargeError extends NfcError {
+  readonly size: number;
+  readonly capacity: number;
+
+  constructor(size: number, capacity: number) {
+    super(`Message needs ${size} bytes but the tag holds ${capacity}`);
+    this.name = "MessageTooLargeError";
+    this.size = size;
+    this.capacity = capacity;
+  }
+}
+
+/**
+ * Maps what a transport threw onto the classes above. Web NFC reports
+ * failures as DOMExceptions: `NotAllowedError` (permission), `NotSupportedError`
+ * (no NFC hardware), `NetworkError` (tag moved away mid-transfer) and
+ * `NotReadableError` / anything else (I/O).
+ */
+export function toNfcError(e: unknown, during: "scan" | "write"): NfcError {
+  if (e instanceof NfcError) return e;
+  const name = (e as any)?.name;
+  const message = (e as any)?.message || `NFC ${during} failed`;
+  const options = { cause: e };
+  switch (name) {
+    case "NotAllowedError":
+      return new NfcPermissionError(message, options);
+    case "NotSupportedError":
+      return new NfcUnsupportedError(message, options);
+    case "NetworkError":
+      if (during === "write") return new TagRemovedError(message, options);
+  }
+  return new NfcIoError(message, options);
+}
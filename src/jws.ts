@@ -0,0 +1,165 @@
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { base64UrlToBytes, bytesToBase64Url } from "./base64";
+import { SigningError } from "./errors";
+import {
+  jwkThumbprint,
+  normalizePublicKey,
+  publicKeyFromJwk,
+  type Ed25519Jwk,
+} from "./keys";
+import type { SignOpts, SignResult } from "./sign";
+import { verifySignature } from "./verify";
+
+/**
+ * Anything that can have the tag sign text: an `NfcSession` or the object
+ * returned by `useWebNfc`.
+ */
+export type TextSigner = {
+  signMessage(message: string, opts?: SignOpts): Promise<SignResult>;
+};
+
+export type JwsHeader = { [name: string]: unknown };
+
+export type JwsSignOpts = SignOpts & {
+  // Tag key; required because the kid goes into the signed header
+  publicKey: string;
+};
+
+export type SignedJws = {
+  // Compact serialization: header.payload.signature
+  jws: string;
+  kid: string;
+  publicKey: string;
+  tagId: string | undefined;
+};
+
+export type JwsVerdict =
+  | "valid"
+  | "malformed"
+  | "unsupported-alg"
+  | "key-mismatch"
+  | "bad-signature"
+  | "expired"
+  | "not-yet-valid";
+
+export type JwsVerification = {
+  valid: boolean;
+  verdict: JwsVerdict;
+  header?: JwsHeader;
+  // Parsed JSON payload, or the raw text when it is not JSON
+  payload?: unknown;
+};
+
+export type VerifyJwsOpts = {
+  // Clock for `exp` / `nbf` checks, ms since the Unix epoch
+  now?: number;
+  // Allowed clock skew in seconds
+  clockTolerance?: number;
+};
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+function encodePart(value: JwsHeader | object | string | Uint8Array) {
+  const bytes =
+    value instanceof Uint8Array
+      ? value
+      : utf8(typeof value === "string" ? value : JSON.stringify(value));
+  return bytesToBase64Url(bytes);
+}
+
+/**
+ * Has the tag issue a compact JWS (RFC 7515) with `alg: "EdDSA"`. The
+ * header gets `alg` and a `kid` (the RFC 7638 thumbprint of the tag key)
+ * set over whatever the caller passed. Objects are JSON-encoded, strings
+ * are taken as UTF-8 text. The signing input is written to the tag as text,
+ * so it has to fit on the tag; keep tokens short.
+ */
+export async function signJws(
+  signer: TextSigner,
+  header: JwsHeader,
+  payload: object | string | Uint8Array,
+  opts: JwsSignOpts
+): Promise<SignedJws> {
+  if (!opts.publicKey) {
+    throw new SigningError(
+      "no-public-key",
+      "signJws needs the tag's publicKey for the kid header"
+    );
+  }
+  const publicKey = normalizePublicKey(opts.publicKey);
+  const kid = jwkThumbprint(publicKey);
+  const protectedHeader = encodePart({ ...header, alg: "EdDSA", kid });
+  const signingInput = `${protectedHeader}.${encodePart(payload)}`;
+
+  const result = await signer.signMessage(signingInput, {
+    ...opts,
+    publicKey,
+  });
+  const signature = bytesToBase64Url(hexToBytes(result.signature));
+  return {
+    jws: `${signingInput}.${signature}`,
+    kid,
+    publicKey: result.publicKey,
+    tagId: result.tagId,
+  };
+}
+
+/**
+ * Verifies a compact JWS from `signJws` against a key given as JWK or
+ * 64-hex. Checks `alg`, the `kid` when present, the signature and, for JSON
+ * payloads, `exp` and `nbf`. Only the key can make it throw
+ * (`KeyFormatError`); everything about the token is reported in `verdict`.
+ */
+export function verifyJws(
+  jws: string,
+  key: Ed25519Jwk | string,
+  opts: VerifyJwsOpts = {}
+): JwsVerification {
+  const publicKey =
+    typeof key === "string" ? normalizePublicKey(key) : publicKeyFromJwk(key);
+
+  const parts = jws.trim().split(".");
+  let header: JwsHeader;
+  let payload: unknown;
+  let signature: Uint8Array;
+  try {
+    if (parts.length !== 3) throw new Error("expected three parts");
+    header = JSON.parse(new TextDecoder().decode(base64UrlToBytes(parts[0])));
+    if (typeof header !== "object" || header === null) throw new Error();
+    const text = new TextDecoder().decode(base64UrlToBytes(parts[1]));
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      payload = text;
+    }
+    signature = base64UrlToBytes(parts[2]);
+  } catch {
+    return { valid: false, verdict: "malformed" };
+  }
+  const result = (verdict: JwsVerdict): JwsVerification => ({
+    valid: verdict === "valid",
+    verdict,
+    header,
+    payload,
+  });
+
+  if (header.alg !== "EdDSA") return result("unsupported-alg");
+  if (header.kid !== undefined && header.kid !== jwkThumbprint(publicKey)) {
+    return result("key-mismatch");
+  }
+  const signingInput = `${parts[0]}.${parts[1]}`;
+  if (!verifySignature(signingInput, bytesToHex(signature), publicKey)) {
+    return result("bad-signature");
+  }
+
+  if (typeof payload === "object" && payload !== null) {
+    const { exp, nbf } = payload as { exp?: unknown; nbf?: unknown };
+    const now = (opts.now ?? Date.now()) / 1000;
+    const skew = opts.clockTolerance ?? 0;
+    if (typeof exp === "number" && now - skew >= exp) return result("expired");
+    if (typeof nbf === "number" && now + skew < nbf) {
+      return result("not-yet-valid");
+    }
+  }
+  return result("valid");
+}
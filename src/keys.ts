@@ -0,0 +1,199 @@
+// Conversions of the tag's raw Ed25519 public key (the 64-hex string from
+// PH_IDLE or device info) to the formats other systems register keys in.
+// Every conversion validates its input, including that the key is a point on
+// the curve, and throws KeyFormatError otherwise. The `...From...` functions
+// return the key as lowercase 64-hex.
+
+import { ed25519 } from "@noble/curves/ed25519";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex } from "@noble/hashes/utils";
+import { base58ToBytes, bytesToBase58 } from "./base58";
+import {
+  base64ToBytes,
+  base64UrlToBytes,
+  bytesToBase64,
+  bytesToBase64Url,
+} from "./base64";
+import { KeyFormatError } from "./errors";
+
+export type Ed25519Jwk = {
+  kty: "OKP";
+  crv: "Ed25519";
+  x: string; // base64url, unpadded
+  kid?: string;
+  use?: string;
+  alg?: string;
+};
+
+export type PublicKeyFormats = {
+  jwk: Ed25519Jwk;
+  pem: string;
+  multibase: string;
+  didKey: string;
+  fingerprint: string;
+};
+
+// DER prefix of SubjectPublicKeyInfo { id-Ed25519 (1.3.101.112), BIT STRING }
+const SPKI_PREFIX = Uint8Array.from([
+  0x30, 0x2a, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x03, 0x21, 0x00,
+]);
+// Multicodec varint of ed25519-pub
+const MULTICODEC_ED25519 = Uint8Array.from([0xed, 0x01]);
+
+function checkKey(bytes: Uint8Array, from: string): string {
+  if (bytes.length !== 32) {
+    throw new KeyFormatError(
+      `${from}: expected a 32-byte Ed25519 key, got ${bytes.length} bytes`
+    );
+  }
+  try {
+    ed25519.ExtendedPoint.fromHex(bytes);
+  } catch (e) {
+    throw new KeyFormatError(`${from}: not a point on Ed25519`, { cause: e });
+  }
+  return bytesToHex(bytes);
+}
+
+function keyBytes(publicKeyHex: string): Uint8Array {
+  const hex = publicKeyHex.trim();
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new KeyFormatError("Public key must be 64 hex characters");
+  }
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  checkKey(bytes, "Public key");
+  return bytes;
+}
+
+// Validates a 64-hex public key and returns it in lowercase
+export function normalizePublicKey(publicKeyHex: string): string {
+  return bytesToHex(keyBytes(publicKeyHex));
+}
+
+export function publicKeyToJwk(publicKeyHex: string): Ed25519Jwk {
+  return {
+    kty: "OKP",
+    crv: "Ed25519",
+    x: bytesToBase64Url(keyBytes(publicKeyHex)),
+  };
+}
+
+export function publicKeyFromJwk(jwk: unknown): string {
+  const k = jwk as Partial<Ed25519Jwk> | null;
+  if (typeof k !== "object" || k === null) {
+    throw new KeyFormatError("JWK: not an object");
+  }
+  if (k.kty !== "OKP" || k.crv !== "Ed25519") {
+    throw new KeyFormatError('JWK: expected kty "OKP" and crv "Ed25519"');
+  }
+  if ("d" in k) {
+    throw new KeyFormatError("JWK: refusing a private key");
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = base64UrlToBytes(String(k.x));
+  } catch (e) {
+    throw new KeyFormatError("JWK: x is not base64url", { cause: e });
+  }
+  return checkKey(bytes, "JWK");
+}
+
+// DER-encoded SubjectPublicKeyInfo (RFC 8410)
+export function publicKeyToSpki(publicKeyHex: string): Uint8Array {
+  const out = new Uint8Array(SPKI_PREFIX.length + 32);
+  out.set(SPKI_PREFIX);
+  out.set(keyBytes(publicKeyHex), SPKI_PREFIX.length);
+  return out;
+}
+
+export function publicKeyFromSpki(der: Uint8Array): string {
+  const prefixOk =
+    der.length === SPKI_PREFIX.length + 32 &&
+    SPKI_PREFIX.every((b, i) => der[i] === b);
+  if (!prefixOk) {
+    throw new KeyFormatError("SPKI: not an Ed25519 SubjectPublicKeyInfo");
+  }
+  return checkKey(der.slice(SPKI_PREFIX.length), "SPKI");
+}
+
+export function publicKeyToPem(publicKeyHex: string): string {
+  const b64 = bytesToBase64(publicKeyToSpki(publicKeyHex));
+  return `-----BEGIN PUBLIC KEY-----\n${b64}\n-----END PUBLIC KEY-----\n`;
+}
+
+export function publicKeyFromPem(pem: string): string {
+  const match = pem.match(
+    /-----BEGIN PUBLIC KEY-----([\s\S]*?)-----END PUBLIC KEY-----/
+  );
+  if (!match) throw new KeyFormatError("PEM: no PUBLIC KEY block");
+  let der: Uint8Array;
+  try {
+    der = base64ToBytes(match[1].replace(/\s+/g, ""));
+  } catch (e) {
+    throw new KeyFormatError("PEM: body is not base64", { cause: e });
+  }
+  return publicKeyFromSpki(der);
+}
+
+// Multibase base58btc ("z") of the ed25519-pub multicodec key
+export function publicKeyToMultibase(publicKeyHex: string): string {
+  return `z${bytesToBase58(new Uint8Array([...MULTICODEC_ED25519, ...keyBytes(publicKeyHex)]))}`;
+}
+
+export function publicKeyFromMultibase(multibase: string): string {
+  if (!multibase.startsWith("z")) {
+    throw new KeyFormatError("Multibase: only base58btc (z) is supported");
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = base58ToBytes(multibase.slice(1));
+  } catch (e) {
+    throw new KeyFormatError("Multibase: invalid base58btc", { cause: e });
+  }
+  if (
+    bytes[0] !== MULTICODEC_ED25519[0] ||
+    bytes[1] !== MULTICODEC_ED25519[1]
+  ) {
+    throw new KeyFormatError("Multibase: not an ed25519-pub multicodec key");
+  }
+  return checkKey(bytes.slice(2), "Multibase");
+}
+
+export function publicKeyToDidKey(publicKeyHex: string): string {
+  return `did:key:${publicKeyToMultibase(publicKeyHex)}`;
+}
+
+export function publicKeyFromDidKey(did: string): string {
+  const match = did.trim().match(/^did:key:([^#/?]+)(#.*)?$/);
+  if (!match) throw new KeyFormatError("did:key: malformed DID");
+  return publicKeyFromMultibase(match[1]);
+}
+
+/**
+ * Short fingerprint for comparing keys by eye: the first 8 bytes of the
+ * key's SHA-256 as four groups of four uppercase hex digits, e.g.
+ * `3F2A 91C0 7B44 E1D8`. Good for spotting a swapped tag, not for pinning.
+ */
+export function publicKeyFingerprint(publicKeyHex: string): string {
+  const hex = bytesToHex(sha256(keyBytes(publicKeyHex)).slice(0, 8));
+  return hex.toUpperCase().match(/.{4}/g)!.join(" ");
+}
+
+// RFC 7638 JWK thumbprint: base64url SHA-256 of the canonical JWK members
+export function jwkThumbprint(publicKeyHex: string): string {
+  const { crv, kty, x } = publicKeyToJwk(publicKeyHex);
+  const canonical = JSON.stringify({ crv, kty, x });
+  return bytesToBase64Url(sha256(new TextEncoder().encode(canonical)));
+}
+
+export function publicKeyFormats(publicKeyHex: string): PublicKeyFormats {
+  return {
+    jwk: publicKeyToJwk(publicKeyHex),
+    pem: publicKeyToPem(publicKeyHex),
+    multibase: publicKeyToMultibase(publicKeyHex),
+    didKey: publicKeyToDidKey(publicKeyHex),
+    fingerprint: publicKeyFingerprint(publicKeyHex),
+  };
+}
@@ -0,0 +1,80 @@
+import { Emitter } from "./emitter";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * One structured log event. `event` is a stable name such as `scan-start`,
+ * `rescan`, `deep-reset`, `records`, `parsed`, `write`, `protocol` or
+ * `error`; `data` carries its fields.
+ */
+export type LogEntry = {
+  ts: number;
+  level: LogLevel;
+  event: string;
+  data?: Record<string, unknown>;
+};
+
+export interface NfcLogger {
+  log(entry: LogEntry): void;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+function levelEnabled(level: LogLevel, min: LogLevel) {
+  return LEVELS[level] >= LEVELS[min];
+}
+
+// Prints entries at or above `minLevel` to the console
+export function consoleLogger(minLevel: LogLevel = "debug"): NfcLogger {
+  return {
+    log(entry) {
+      if (!levelEnabled(entry.level, minLevel)) return;
+      const method = entry.level === "debug" ? "log" : entry.level;
+      console[method](`[NFC] ${entry.event}`, entry.data ?? "");
+    },
+  };
+}
+
+/**
+ * In-memory ring buffer of the last `capacity` entries at or above `level`,
+ * for showing in a debug panel or attaching to a bug report. Emits `entry`
+ * for every entry it keeps.
+ */
+export class TraceBuffer
+  extends Emitter<{ entry: [entry: LogEntry] }>
+  implements NfcLogger
+{
+  private buffer: LogEntry[] = [];
+  private capacity: number;
+  private level: LogLevel;
+
+  constructor(opts: { capacity?: number; level?: LogLevel } = {}) {
+    super();
+    this.capacity = Math.max(1, opts.capacity ?? 500);
+    this.level = opts.level ?? "debug";
+  }
+
+  log(entry: LogEntry) {
+    if (!levelEnabled(entry.level, this.level)) return;
+    this.buffer.push(entry);
+    if (this.buffer.length > this.capacity) this.buffer.shift();
+    this.emit("entry", entry);
+  }
+
+  entries(): LogEntry[] {
+    return [...this.buffer];
+  }
+
+  clear() {
+    this.buffer = [];
+  }
+
+  toJSON() {
+    return this.entries();
+  }
+}
@@ -0,0 +1,290 @@
+import { publicKeyFormats, type PublicKeyFormats } from "./keys";
+import type { TagTrust } from "./registry";
+import type { NdefReadingEvent } from "./transport";
+
+export type EdSignStatus =
+  | { state: "ERROR"; error: string }
+  | { state: "PH_INIT_K"; progress?: number }
+  | { state: "PH_INIT_R"; progress?: number }
+  | {
+      state: "PH_R_WORK";
+      stepsRemaining?: number;
+      stepsTotal?: number;
+      progress?: number;
+    }
+  | { state: "PH_R_DONE"; progress?: number; stepsTotal?: number }
+  | {
+      state: "PH_DONE";
+      progress: number;
+      signature?: string;
+      verified?: boolean;
+    }
+  | {
+      state: "PH_IDLE";
+      pubkey: string;
+      // JWK, PEM, multibase, did:key and fingerprint of `pubkey`
+      keyFormats?: PublicKeyFormats;
+      trust?: TagTrust;
+    }
+  | { state: "BUSY" }
+  | null;
+
+// Every reading the parser can produce, tagged by `kind`
+export type StatusReading = { kind: "status" } & NonNullable<EdSignStatus>;
+
+export type DeviceInfoReading = {
+  kind: "device-info";
+  publicKey?: string; // always 64-hex when present
+  chipId?: string;
+  // Usable NDEF bytes, when the firmware announces them (e.g. "cap=240")
+  capacity?: number;
+  // JWK, PEM, multibase, did:key and fingerprint of `publicKey`
+  keyFormats?: PublicKeyFormats;
+  rawText: string;
+  trust?: TagTrust;
+};
+
+export type JsonReading = { kind: "json"; data: unknown };
+
+export type RawTextReading = { kind: "raw-text"; text: string };
+
+export type NfcReading =
+  StatusReading | DeviceInfoReading | JsonReading | RawTextReading;
+
+// ---- Progress mapping constants (CHANGED) ----
+export const TOTAL_STEPS = 255;
+export const INIT_PROGRESS = 10; // 10% for initialization
+export const R_DONE_PROGRESS = 95; // up to 95% when stepsRemaining hits 0
+
+function clamp01to100(n: number) {
+  return Math.max(0, Math.min(100, Math.round(n)));
+}
+
+// Fixed mapping: remaining 255→0 maps to 10%→95% (CHANGED)
+export function progressFromRemaining(rem: number): {
+  progress: number;
+  stepsTotal: number;
+} {
+  const clamped = Math.max(0, Math.min(TOTAL_STEPS, Math.round(rem)));
+  const ratio = (TOTAL_STEPS - clamped) / TOTAL_STEPS; // 0..1
+  const pct = INIT_PROGRESS + ratio * (R_DONE_PROGRESS - INIT_PROGRESS);
+  return { progress: clamp01to100(pct), stepsTotal: TOTAL_STEPS };
+}
+
+export function parseEdSignTextStatus(text: string): EdSignStatus {
+  const t = text.trim();
+
+  // Errors
+  if (/err(or)?/i.test(t)) return { state: "ERROR", error: t };
+
+  // Explicit init phases (CHANGED: set progress to INIT_PROGRESS)
+  if (/\bPH_INIT_K\b/i.test(t))
+    return { state: "PH_INIT_K", progress: INIT_PROGRESS };
+  if (/\bPH_INIT_R\b/i.test(t))
+    return { state: "PH_INIT_R", progress: INIT_PROGRESS };
+
+  // R work: "R:i=<n>" (canonical in new firmware)
+  const r = t.match(/R\s*:?\s*i\s*=\s*(\d+)/i);
+  if (r) {
+    const remaining = Number(r[1]);
+    return { state: "PH_R_WORK", stepsRemaining: remaining };
+  }
+
+  // R work (fallback): lines starting with "R" and containing a number
+  if (/^R\b/i.test(t)) {
+    const num = t.match(/(\d+)/);
+    if (num) {
+      const remaining = Number(num[1]);
+      return { state: "PH_R_WORK", stepsRemaining: remaining };
+    }
+    return { state: "PH_R_WORK" };
+  }
+
+  // R done: "R:done" (new firmware)
+  if (/\bR\s*:?\s*done\b/i.test(t)) {
+    return { state: "PH_R_DONE" };
+  }
+
+  // Final 128-hex signature (PH_DONE in new firmware)
+  if (t.length === 128 && /^[0-9A-F]+$/i.test(t)) {
+    return { state: "PH_DONE", signature: t, progress: 100 };
+  }
+
+  // Idle/public key: 64-hex (emitted when no RAM state or PH_IDLE)
+  if (t.length === 64 && /^[0-9A-F]+$/i.test(t)) {
+    return { state: "PH_IDLE", pubkey: t };
+  }
+
+  // Busy (fallback from firmware "else" branch)
+  if (/^\s*busy\s*$/i.test(t)) {
+    return { state: "BUSY" };
+  }
+
+  // Legacy fallbacks (not used by new firmware but kept for resilience)
+  if (/sig(nature)?/i.test(t)) {
+    const hex = t.match(/\b[0-9a-f]{64,}\b/i)?.[0];
+    if (hex && hex.length === 128)
+      return { state: "PH_DONE", signature: hex, progress: 100 };
+    return { state: "PH_DONE", progress: 100 };
+  }
+  if (/\b(done|ok|success)\b/i.test(t)) {
+    return { state: "PH_DONE", progress: 100 };
+  }
+
+  // No match
+  return null;
+}
+
+function safeDecode(
+  dec: TextDecoder,
+  data: DataView | ArrayBuffer | undefined
+) {
+  try {
+    if (!data) return "";
+    return dec.decode(data);
+  } catch {
+    return "";
+  }
+}
+
+// Decoded, trimmed contents of every non-empty text record
+export function readTextRecords(event: NdefReadingEvent): string[] {
+  const dec = new TextDecoder();
+  const texts: string[] = [];
+  for (const record of event.message.records) {
+    if (record.recordType === "text") {
+      const text = safeDecode(dec, record.data).trim();
+      if (text) texts.push(text);
+    }
+  }
+  return texts;
+}
+
+export function tryParseFromEvent(
+  event: NdefReadingEvent,
+  parseStatus: (text: string) => EdSignStatus = parseEdSignTextStatus
+): NfcReading | null {
+  const dec = new TextDecoder();
+
+  // 1) Try JSON records
+  for (const record of event.message.records) {
+    if (
+      record.mediaType === "application/vnd.edsign+json" ||
+      record.mediaType === "application/json"
+    ) {
+      const text = safeDecode(dec, record.data);
+      if (
+        text &&
+        (text.trim().startsWith("{") || text.trim().startsWith("["))
+      ) {
+        try {
+          return { kind: "json", data: JSON.parse(text) };
+        } catch {}
+      }
+    }
+  }
+
+  // 2) Try text record containing JSON
+  for (const record of event.message.records) {
+    if (record.recordType === "text") {
+      const text = safeDecode(dec, record.data);
+      if (
+        text &&
+        (text.trim().startsWith("{") || text.trim().startsWith("["))
+      ) {
+        try {
+          return { kind: "json", data: JSON.parse(text) };
+        } catch {}
+      }
+    }
+  }
+
+  // 3) Try to parse signing status from text
+  for (const record of event.message.records) {
+    if (record.recordType === "text") {
+      const text = safeDecode(dec, record.data) ?? "";
+      const status = parseStatus(text);
+      if (status) {
+        // Inject progress for init phases if not set (CHANGED)
+        if (
+          (status.state === "PH_INIT_K" || status.state === "PH_INIT_R") &&
+          typeof status.progress !== "number"
+        ) {
+          status.progress = INIT_PROGRESS;
+        }
+
+        // Map stepsRemaining to progress 10→95 and set stepsTotal=255 (CHANGED)
+        if (
+          status.state === "PH_R_WORK" &&
+          typeof status.stepsRemaining === "number"
+        ) {
+          const { progress, stepsTotal } = progressFromRemaining(
+            status.stepsRemaining
+          );
+          status.progress = progress;
+          status.stepsTotal = stepsTotal;
+        }
+
+        // Nudge PH_R_DONE into the last 5% window (e.g., 97%) (CHANGED)
+        if (
+          status.state === "PH_R_DONE" &&
+          typeof status.progress !== "number"
+        ) {
+          status.progress = Math.max(R_DONE_PROGRESS, 97);
+          status.stepsTotal = TOTAL_STEPS;
+        }
+
+        // Ensure PH_DONE is 100%
+        if (status.state === "PH_DONE") status.progress = 100;
+
+        // The idle reply is the answer to the pubkey command
+        if (status.state === "PH_IDLE") {
+          const keyFormats = keyFormatsOf(status.pubkey);
+          if (keyFormats) status.keyFormats = keyFormats;
+        }
+
+        return { kind: "status", ...status };
+      }
+    }
+  }
+
+  // 4) As a last resort, synthesize a plain payload with raw text lines
+  const texts = readTextRecords(event);
+
+  if (texts.length) {
+    const rawText = texts.join("\n").trim();
+
+    // Heuristics for labeled text
+    const pubkeyMatch = rawText.match(
+      /(pubkey|public[_\s]?key)\s*[:=]\s*([0-9a-fA-F]{64})\b/i
+    );
+    const uidMatch = rawText.match(
+      /\b(uid|chip[_\s]?id)\s*[:=]\s*([0-9a-fA-F]+)/i
+    );
+    const capacityMatch = rawText.match(
+      /\b(cap|capacity|ndef[_\s]?size)\s*[:=]\s*(\d+)\b/i
+    );
+    if (!pubkeyMatch && !uidMatch && !capacityMatch)
+      return { kind: "raw-text", text: rawText };
+
+    const info: DeviceInfoReading = { kind: "device-info", rawText };
+    if (pubkeyMatch) info.publicKey = pubkeyMatch[2];
+    if (uidMatch) info.chipId = uidMatch[2];
+    if (capacityMatch) info.capacity = Number(capacityMatch[2]);
+    const keyFormats = keyFormatsOf(info.publicKey);
+    if (keyFormats) info.keyFormats = keyFormats;
+    return info;
+  }
+
+  return null;
+}
+
+// Hex that is not a curve point is still reported, just without the formats
+function keyFormatsOf(publicKey: string | undefined) {
+  if (!publicKey) return undefined;
+  try {
+    return publicKeyFormats(publicKey);
+  } catch {
+    return undefined;
+  }
+}
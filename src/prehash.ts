@@ -0,0 +1,18 @@
+import { ed25519ph } from "@noble/curves/ed25519";
+import { twistedEdwards } from "@noble/curves/abstract/edwards";
+import { sha512 } from "@noble/hashes/sha2";
+
+// Length of the SHA-512 digest sent to the tag in prehash mode
+export const PREHASH_DIGEST_BYTES = 64;
+
+export function prehashSha512(data: Uint8Array) {
+  return sha512(data);
+}
+
+// Ed25519ph (RFC 8032 5.1, empty context) over a digest computed elsewhere,
+// i.e. what the tag does with the digest it receives
+export const ed25519phDigest = twistedEdwards({
+  ...ed25519ph.CURVE,
+  // Callers always pass bytes
+  prehash: (digest) => digest as Uint8Array,
+});
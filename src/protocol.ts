@@ -0,0 +1,90 @@
+import { parseEdSignTextStatus, type EdSignStatus } from "./parser";
+
+/**
+ * Status parser for one firmware revision.
+ *
+ * `detect` looks at an idle or device-info reply and says whether it comes
+ * from this firmware; `parse` maps one text record to a status and returns
+ * `null` for anything it does not recognize exactly.
+ */
+export interface ProtocolParser {
+  readonly version: string;
+  detect(text: string): boolean;
+  parse(text: string): EdSignStatus;
+}
+
+const HEX64 = /^[0-9a-f]{64}$/i;
+const HEX128 = /^[0-9a-f]{128}$/i;
+
+// Current firmware: exact tokens only, no keyword guessing
+export const edSignV2Protocol: ProtocolParser = {
+  version: "edsign-2",
+  detect: (text) => HEX64.test(text.trim()),
+  parse(text) {
+    const t = text.trim();
+    if (t === "PH_INIT_K") return { state: "PH_INIT_K" };
+    if (t === "PH_INIT_R") return { state: "PH_INIT_R" };
+    const r = t.match(/^R:i=(\d{1,3})$/);
+    if (r) return { state: "PH_R_WORK", stepsRemaining: Number(r[1]) };
+    if (t === "R:done") return { state: "PH_R_DONE" };
+    if (HEX128.test(t))
+      return { state: "PH_DONE", signature: t, progress: 100 };
+    if (HEX64.test(t)) return { state: "PH_IDLE", pubkey: t };
+    if (t === "busy") return { state: "BUSY" };
+    if (/^ERR(OR)?(:|\s|$)/.test(t)) return { state: "ERROR", error: t };
+    return null;
+  },
+};
+
+// Older firmware: labeled device info and the permissive keyword parser
+export const edSignLegacyProtocol: ProtocolParser = {
+  version: "edsign-1",
+  detect: (text) => /\b(pubkey|public[_\s]?key)\s*[:=]/i.test(text),
+  parse: parseEdSignTextStatus,
+};
+
+// Explicit announcement in device info, e.g. "fw=edsign-2"
+const VERSION_LABEL = /\b(?:fw|firmware|protocol)\s*[:=]\s*([\w.-]+)/i;
+
+/**
+ * Ordered set of firmware parsers. Explicit version labels win; otherwise
+ * parsers are asked to `detect` in registration order.
+ */
+export class ProtocolRegistry {
+  private parsers: ProtocolParser[] = [];
+
+  constructor(parsers: ProtocolParser[] = []) {
+    for (const p of parsers) this.register(p);
+  }
+
+  // Registering an existing version replaces it in place
+  register(parser: ProtocolParser) {
+    const i = this.parsers.findIndex((p) => p.version === parser.version);
+    if (i >= 0) this.parsers[i] = parser;
+    else this.parsers.push(parser);
+    return this;
+  }
+
+  unregister(version: string) {
+    this.parsers = this.parsers.filter((p) => p.version !== version);
+  }
+
+  get(version: string) {
+    return this.parsers.find((p) => p.version === version);
+  }
+
+  list() {
+    return this.parsers.map((p) => p.version);
+  }
+
+  detect(text: string): ProtocolParser | undefined {
+    const label = text.match(VERSION_LABEL)?.[1];
+    const announced = label ? this.get(label) : undefined;
+    if (announced) return announced;
+    return this.parsers.find((p) => p.detect(text));
+  }
+}
+
+export function createDefaultProtocols() {
+  return new ProtocolRegistry([edSignV2Protocol, edSignLegacyProtocol]);
+}
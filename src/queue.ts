@@ -0,0 +1,456 @@
+import { base64ToBytes, bytesToBase64 } from "./base64";
+import type { BytesSigner } from "./cardano";
+import { Emitter } from "./emitter";
+import {
+  NfcError,
+  SigningError,
+  StorageError,
+  type SigningFailure,
+} from "./errors";
+import type { TextSigner } from "./jws";
+import { normalizePublicKey } from "./keys";
+import { createReceipt, type Receipt } from "./receipt";
+import type { SignBytesOpts, SignProgress, SignResult } from "./sign";
+import type { SignatureMode } from "./verify";
+
+export type QueueItemStatus = "pending" | "signing" | "signed" | "failed";
+
+// Signing failures, plus stored data that cannot be decoded and errors a
+// custom signer threw that are not NfcErrors
+export type QueueFailure = SigningFailure | "invalid-item" | "signer-error";
+
+export type QueueItem = {
+  id: string;
+  // Exactly one of these carries the data: UTF-8 text or base64 bytes
+  message?: string;
+  messageBase64?: string;
+  status: QueueItemStatus;
+  // Runs started for this item, including aborted ones
+  attempts: number;
+  signature?: string;
+  publicKey?: string;
+  tagId?: string;
+  mode?: SignatureMode;
+  firmware?: string;
+  signedAt?: number;
+  // Why the last attempt failed; cleared by retryFailed()
+  error?: { reason: QueueFailure; message: string };
+  updatedAt: number;
+};
+
+export type QueueInput =
+  string | Uint8Array | { id: string; message: string | Uint8Array };
+
+export type QueueState = "idle" | "running" | "paused";
+
+export type QueueSummary = {
+  total: number;
+  pending: number;
+  signed: number;
+  failed: number;
+};
+
+export type SigningQueueExport = {
+  version: 1;
+  // Tag key every signature was verified against
+  publicKey?: string;
+  exportedAt: number;
+  summary: QueueSummary;
+  items: QueueItem[];
+};
+
+export type SigningQueueOpts = Omit<SignBytesOpts, "signal" | "verify"> & {
+  // Where items and results are saved after every change
+  storage?: SigningQueueStorage;
+};
+
+export type SigningQueueEvents = {
+  item: [QueueItem];
+  progress: [QueueItem, SignProgress];
+  state: [QueueState];
+  // The run ended with no pending items left
+  done: [QueueSummary];
+};
+
+export interface SigningQueueStorage {
+  load(): Promise<QueueItem[] | null>;
+  save(items: QueueItem[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class MemorySigningQueueStorage implements SigningQueueStorage {
+  private items: QueueItem[] | null = null;
+
+  async load() {
+    return this.items && this.items.map((item) => ({ ...item }));
+  }
+
+  async save(items: QueueItem[]) {
+    this.items = items.map((item) => ({ ...item }));
+  }
+
+  async clear() {
+    this.items = null;
+  }
+}
+
+export class LocalStorageSigningQueueStorage implements SigningQueueStorage {
+  private key: string;
+  private storage: Storage;
+
+  constructor(key = "uverify.signingQueue", storage: Storage = localStorage) {
+    this.key = key;
+    this.storage = storage;
+  }
+
+  async load() {
+    const raw = this.storage.getItem(this.key);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as QueueItem[];
+    } catch (e) {
+      throw new StorageError(`Stored queue in "${this.key}" is corrupt`, {
+        cause: e,
+      });
+    }
+  }
+
+  async save(items: QueueItem[]) {
+    this.storage.setItem(this.key, JSON.stringify(items));
+  }
+
+  async clear() {
+    this.storage.removeItem(this.key);
+  }
+}
+
+let nextId = 0;
+const newId = () => `${Date.now().toString(36)}-${(nextId++).toString(36)}`;
+
+function itemData(item: QueueItem): string | Uint8Array {
+  if (typeof item.message === "string") return item.message;
+  if (typeof item.messageBase64 === "string") {
+    return base64ToBytes(item.messageBase64);
+  }
+  throw new TypeError(`Queue item ${item.id} has no message`);
+}
+
+function isItemList(items: unknown): items is QueueItem[] {
+  return (
+    Array.isArray(items) &&
+    items.every(
+      (item) =>
+        typeof item === "object" &&
+        item !== null &&
+        typeof item.id === "string" &&
+        typeof item.status === "string"
+    )
+  );
+}
+
+/**
+ * Signs a list of messages or byte arrays with one tag, one after the other.
+ * Each run asks the signer to verify the signature against the tag key:
+ * `publicKey` when given, otherwise the key of the first signed item, so a
+ * swapped tag fails with `invalid-signature`. Items and results are saved to
+ * `storage` after every change, and an item that was signing when the page
+ * went away is pending again after a reload. Await `ready` before reading
+ * `items`; it rejects with `StorageError` when the saved queue cannot be
+ * loaded, and so does every method that needs it.
+ */
+export class SigningQueue extends Emitter<SigningQueueEvents> {
+  readonly ready: Promise<void>;
+  private signer: TextSigner & BytesSigner;
+  private opts: SigningQueueOpts;
+  private storage: SigningQueueStorage;
+  private list: QueueItem[] = [];
+  private pinnedKey: string | undefined;
+  private running: Promise<QueueSummary> | undefined;
+  private controller: AbortController | undefined;
+  private pausing = false;
+  private current: QueueState = "idle";
+
+  constructor(signer: TextSigner & BytesSigner, opts: SigningQueueOpts = {}) {
+    super();
+    this.signer = signer;
+    const { storage = new MemorySigningQueueStorage(), ...signOpts } = opts;
+    this.opts = signOpts;
+    this.storage = storage;
+    this.pinnedKey = opts.publicKey && normalizePublicKey(opts.publicKey);
+    this.ready = Promise.resolve()
+      .then(() => storage.load())
+      .then((items) => {
+        if (items != null && !isItemList(items)) {
+          throw new StorageError("Stored signing queue is not a list of items");
+        }
+        this.list = (items ?? []).map((item) =>
+          item.status === "signing" ? { ...item, status: "pending" } : item
+        );
+        this.pinnedKey ??= this.list.find(
+          (i) => i.status === "signed"
+        )?.publicKey;
+      })
+      // Covers the adapter and anything above tripping over what it returned
+      .catch((e) => {
+        throw e instanceof StorageError
+          ? e
+          : new StorageError("Could not load the signing queue", {
+              cause: e,
+            });
+      });
+    // Reported to whoever awaits it, not as an unhandled rejection
+    this.ready.catch(() => {});
+  }
+
+  get items(): QueueItem[] {
+    return this.list.map((item) => ({ ...item }));
+  }
+
+  get state(): QueueState {
+    return this.current;
+  }
+
+  // Key the signatures are checked against, once known
+  get publicKey(): string | undefined {
+    return this.pinnedKey;
+  }
+
+  get summary(): QueueSummary {
+    const count = (status: QueueItemStatus) =>
+      this.list.filter((item) => item.status === status).length;
+    return {
+      total: this.list.length,
+      pending: count("pending") + count("signing"),
+      signed: count("signed"),
+      failed: count("failed"),
+    };
+  }
+
+  /**
+   * Appends items as pending. Strings are signed as text with
+   * `signMessage`, byte arrays with `signBytes` (honouring `prehash`). Pass
+   * `{ id, message }` to keep your own record ids in the results.
+   */
+  async add(inputs: QueueInput[]): Promise<QueueItem[]> {
+    await this.ready;
+    const added = inputs.map((input): QueueItem => {
+      const { id, message } =
+        typeof input === "string" || input instanceof Uint8Array
+          ? { id: newId(), message: input }
+          : input;
+      if (typeof message !== "string" && !(message instanceof Uint8Array)) {
+        throw new TypeError(`Queue item ${id} needs a string or Uint8Array`);
+      }
+      return {
+        id,
+        ...(typeof message === "string"
+          ? { message }
+          : { messageBase64: bytesToBase64(message) }),
+        status: "pending",
+        attempts: 0,
+        updatedAt: Date.now(),
+      };
+    });
+    const ids = new Set(this.list.map((item) => item.id));
+    for (const { id } of added) {
+      if (ids.has(id)) {
+        throw new TypeError(`Queue already has an item with id ${id}`);
+      }
+      ids.add(id);
+    }
+    this.list.push(...added);
+    await this.save();
+    for (const item of added) this.emit("item", { ...item });
+    return added.map((item) => ({ ...item }));
+  }
+
+  /**
+   * Signs pending items in order until none are left or `pause()` is
+   * called. A failed item is recorded and the queue moves on. Resolves with
+   * the summary; calling it while running returns the same promise.
+   */
+  start(): Promise<QueueSummary> {
+    this.running ??= this.run().finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  resume(): Promise<QueueSummary> {
+    return this.start();
+  }
+
+  // Aborts the item being signed, which goes back to pending
+  async pause() {
+    if (!this.running) return;
+    this.pausing = true;
+    this.controller?.abort();
+    await this.running.catch(() => {});
+  }
+
+  // Puts failed items back to pending and starts the queue
+  async retryFailed(): Promise<QueueSummary> {
+    await this.ready;
+    for (const item of this.list) {
+      if (item.status !== "failed") continue;
+      item.status = "pending";
+      delete item.error;
+      item.updatedAt = Date.now();
+      this.emit("item", { ...item });
+    }
+    await this.save();
+    return this.start();
+  }
+
+  // Every item with its result or failure, ready for JSON.stringify
+  export(): SigningQueueExport {
+    return {
+      version: 1,
+      ...(this.pinnedKey && { publicKey: this.pinnedKey }),
+      exportedAt: Date.now(),
+      summary: this.summary,
+      items: this.items,
+    };
+  }
+
+  // A receipt for every signed item
+  receipts(): Receipt[] {
+    return this.list
+      .filter((item) => item.status === "signed")
+      .map((item) =>
+        createReceipt({
+          signature: item.signature!,
+          publicKey: item.publicKey!,
+          mode: item.mode,
+          message: itemData(item),
+          tagId: item.tagId,
+          firmware: item.firmware,
+          signedAt: item.signedAt,
+        })
+      );
+  }
+
+  // Drops all items and the saved copy; pauses first
+  async clear() {
+    await this.pause();
+    await this.ready;
+    this.list = [];
+    this.pinnedKey =
+      this.opts.publicKey && normalizePublicKey(this.opts.publicKey);
+    await this.storage.clear();
+  }
+
+  private async run(): Promise<QueueSummary> {
+    this.pausing = false;
+    await this.ready;
+    if (this.pausing) {
+      this.setState("paused");
+      return this.summary;
+    }
+    this.setState("running");
+    try {
+      let item: QueueItem | undefined;
+      while (!this.pausing && (item = this.nextPending())) {
+        await this.signItem(item);
+      }
+    } finally {
+      this.controller = undefined;
+      this.setState(this.pausing ? "paused" : "idle");
+    }
+    const summary = this.summary;
+    if (!this.pausing) this.emit("done", summary);
+    return summary;
+  }
+
+  private nextPending() {
+    return this.list.find((item) => item.status === "pending");
+  }
+
+  private async signItem(item: QueueItem) {
+    this.update(item, { status: "signing", attempts: item.attempts + 1 });
+    await this.save();
+
+    const { prehash, onProgress, ...signOpts } = this.opts;
+    const controller = new AbortController();
+    this.controller = controller;
+    const opts = {
+      ...signOpts,
+      publicKey: this.pinnedKey,
+      verify: true,
+      signal: controller.signal,
+      onProgress: (p: SignProgress) => {
+        onProgress?.(p);
+        this.emit("progress", { ...item }, p);
+      },
+    };
+
+    let data: string | Uint8Array;
+    try {
+      data = itemData(item);
+    } catch (e) {
+      this.fail(item, "invalid-item", e);
+      await this.save();
+      return;
+    }
+
+    try {
+      // verify: true makes the signer reject what the pinned key rejects
+      const result: SignResult =
+        typeof data === "string"
+          ? await this.signer.signMessage(data, opts)
+          : await this.signer.signBytes(data, { ...opts, prehash });
+      const publicKey = this.pinnedKey ?? normalizePublicKey(result.publicKey);
+      this.pinnedKey = publicKey;
+      this.update(item, {
+        status: "signed",
+        signature: result.signature,
+        publicKey,
+        tagId: result.tagId,
+        mode: result.mode,
+        firmware: result.firmware,
+        signedAt: Date.now(),
+        error: undefined,
+      });
+    } catch (e: unknown) {
+      if (e instanceof SigningError) {
+        if (this.pausing && e.reason === "aborted") {
+          this.update(item, { status: "pending" });
+        } else {
+          this.fail(item, e.reason, e);
+        }
+      } else {
+        this.fail(
+          item,
+          e instanceof NfcError ? "nfc-error" : "signer-error",
+          e
+        );
+      }
+    } finally {
+      if (this.controller === controller) this.controller = undefined;
+    }
+    await this.save();
+  }
+
+  private fail(item: QueueItem, reason: QueueFailure, e: unknown) {
+    const message = e instanceof Error ? e.message : String(e);
+    this.update(item, { status: "failed", error: { reason, message } });
+  }
+
+  private update(item: QueueItem, patch: Partial<QueueItem>) {
+    Object.assign(item, patch, { updatedAt: Date.now() });
+    for (const key of Object.keys(patch) as (keyof QueueItem)[]) {
+      if (item[key] === undefined) delete item[key];
+    }
+    this.emit("item", { ...item });
+  }
+
+  private save() {
+    return this.storage.save(this.list);
+  }
+
+  private setState(state: QueueState) {
+    if (this.current === state) return;
+    this.current = state;
+    this.emit("state", state);
+  }
+}
@@ -0,0 +1,399 @@
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { base64ToBytes, bytesToBase64 } from "./base64";
+import { decodeCbor, encodeCbor, type CborValue } from "./cbor";
+import { ReceiptFormatError } from "./errors";
+import { prehashSha512 } from "./prehash";
+import {
+  verifyDigestSignature,
+  verifySignature,
+  type SignatureMode,
+} from "./verify";
+
+/**
+ * Self-contained record of one tag signature. See `RECEIPT_JSON_SCHEMA` for
+ * the JSON layout and `encodeReceipt` for the CBOR one.
+ *
+ * At most one of `message` (UTF-8 text) and `messageBase64` (binary) carries
+ * the signed data. `digest` is its SHA-512; it is what an `ed25519ph`
+ * receipt verifies against when the message itself is left out.
+ */
+export type Receipt = {
+  version: 1;
+  mode: SignatureMode;
+  message?: string;
+  messageBase64?: string;
+  digest?: string; // 128-hex SHA-512
+  signature: string; // 128-hex
+  publicKey: string; // 64-hex
+  tagId?: string;
+  firmware?: string;
+  signedAt: number; // ms since the Unix epoch
+  // Verifier nonce; the signed data is challengeMessage(challenge, message)
+  challenge?: string;
+};
+
+export type ReceiptInput = {
+  signature: string;
+  publicKey: string;
+  mode?: SignatureMode;
+  // Text or bytes that were signed (the whole document in ed25519ph mode)
+  message?: string | Uint8Array;
+  // SHA-512 digest, when only that was sent to the tag (ed25519ph)
+  digest?: Uint8Array | string;
+  // Keep only the digest of `message`, e.g. for large documents
+  detached?: boolean;
+  tagId?: string;
+  firmware?: string;
+  // Nonce the tag signed with challengeMessage; `message` is the unbound one
+  challenge?: string;
+  signedAt?: number;
+};
+
+export type ReceiptVerdict =
+  | "valid"
+  | "malformed"
+  | "bad-signature"
+  | "key-mismatch"
+  | "challenge-mismatch"
+  | "digest-mismatch"
+  | "missing-message";
+
+export type ReceiptVerification = {
+  valid: boolean;
+  verdict: ReceiptVerdict;
+  receipt?: Receipt;
+  error?: string;
+};
+
+export type VerifyReceiptOpts = {
+  // Signed data for detached receipts
+  message?: string | Uint8Array;
+  // Reject receipts from any other key
+  publicKey?: string;
+  // Reject receipts whose signature does not cover this challenge
+  challenge?: string;
+};
+
+// JSON Schema (draft 2020-12) of the JSON receipt form
+export const RECEIPT_JSON_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: "https://uverify.io/schemas/asymmetric-nfc/receipt-v1.json",
+  title: "UVerify NFC tag signature receipt",
+  type: "object",
+  required: ["version", "mode", "signature", "publicKey", "signedAt"],
+  additionalProperties: false,
+  properties: {
+    version: { const: 1 },
+    mode: { enum: ["pure", "ed25519ph"] },
+    message: { type: "string", description: "Signed UTF-8 text" },
+    messageBase64: { type: "string", description: "Signed bytes, base64" },
+    digest: {
+      type: "string",
+      pattern: "^[0-9a-f]{128}$",
+      description: "SHA-512 of the signed data",
+    },
+    signature: { type: "string", pattern: "^[0-9a-f]{128}$" },
+    publicKey: { type: "string", pattern: "^[0-9a-f]{64}$" },
+    tagId: { type: "string", description: "Tag serial number" },
+    firmware: { type: "string", description: "Firmware protocol version" },
+    signedAt: {
+      type: "integer",
+      minimum: 0,
+      description: "Milliseconds since the Unix epoch",
+    },
+    challenge: {
+      type: "string",
+      pattern: "^[^\\n]*$",
+      description: "Verifier nonce bound into the signed data",
+    },
+  },
+  not: { required: ["message", "messageBase64"] },
+  anyOf: [
+    { required: ["message"] },
+    { required: ["messageBase64"] },
+    { required: ["digest"] },
+  ],
+} as const;
+
+const HEX = (bytes: number) => new RegExp(`^[0-9a-f]{${bytes * 2}}$`);
+const HEX32 = HEX(32);
+const HEX64 = HEX(64);
+
+function utf8(message: string | Uint8Array) {
+  return typeof message === "string"
+    ? new TextEncoder().encode(message)
+    : message;
+}
+
+// Starts the challenge line; the line break ends the nonce
+const CHALLENGE_PREFIX = "challenge:";
+
+/**
+ * What to sign when a receipt answers a verifier's nonce: the challenge line
+ * followed by the message, so the signature covers both and a receipt with
+ * an edited `challenge` no longer verifies. Text stays text and bytes stay
+ * bytes. Throws `ReceiptFormatError` when the challenge holds a line break.
+ */
+export function challengeMessage(challenge: string, message: string): string;
+export function challengeMessage(
+  challenge: string,
+  message: Uint8Array
+): Uint8Array;
+export function challengeMessage(
+  challenge: string,
+  message: string | Uint8Array
+): string | Uint8Array {
+  if (challenge.includes("\n")) {
+    throw new ReceiptFormatError("Challenge must not contain a line break");
+  }
+  const line = `${CHALLENGE_PREFIX}${challenge}\n`;
+  if (typeof message === "string") return line + message;
+  const head = utf8(line);
+  const out = new Uint8Array(head.length + message.length);
+  out.set(head);
+  out.set(message, head.length);
+  return out;
+}
+
+// The bytes the tag signed for a receipt's message
+function signedData(message: Uint8Array, challenge: string | undefined) {
+  return challenge === undefined
+    ? message
+    : challengeMessage(challenge, message);
+}
+
+export function createReceipt(input: ReceiptInput): Receipt {
+  const receipt: Receipt = {
+    version: 1,
+    mode: input.mode ?? "pure",
+    signature: input.signature.trim().toLowerCase(),
+    publicKey: input.publicKey.trim().toLowerCase(),
+    signedAt: input.signedAt ?? Date.now(),
+  };
+
+  const { message, digest } = input;
+  if (message !== undefined) {
+    if (input.detached) {
+      receipt.digest = bytesToHex(
+        prehashSha512(signedData(utf8(message), input.challenge))
+      );
+    } else if (typeof message === "string") {
+      receipt.message = message;
+    } else {
+      receipt.messageBase64 = bytesToBase64(message);
+    }
+  } else if (digest !== undefined) {
+    receipt.digest =
+      typeof digest === "string" ? digest.toLowerCase() : bytesToHex(digest);
+  }
+  if (input.tagId !== undefined) receipt.tagId = input.tagId;
+  if (input.firmware !== undefined) receipt.firmware = input.firmware;
+  if (input.challenge !== undefined) receipt.challenge = input.challenge;
+
+  return parseReceipt(receipt);
+}
+
+/**
+ * Checks a receipt against `RECEIPT_JSON_SCHEMA` and returns a typed copy.
+ * Accepts the JSON text or an already parsed object; throws
+ * `ReceiptFormatError` on anything else.
+ */
+export function parseReceipt(input: string | object): Receipt {
+  let r: any;
+  try {
+    r = typeof input === "string" ? JSON.parse(input) : input;
+  } catch (e) {
+    throw new ReceiptFormatError("Receipt is not valid JSON", { cause: e });
+  }
+  const fail = (why: string): never => {
+    throw new ReceiptFormatError(`Invalid receipt: ${why}`);
+  };
+
+  if (typeof r !== "object" || r === null) fail("not an object");
+  const known = Object.keys(RECEIPT_JSON_SCHEMA.properties);
+  for (const key of Object.keys(r)) {
+    if (!known.includes(key)) fail(`unknown field "${key}"`);
+  }
+  if (r.version !== 1) fail("unsupported version");
+  if (r.mode !== "pure" && r.mode !== "ed25519ph") fail("unknown mode");
+  if (typeof r.signature !== "string" || !HEX64.test(r.signature))
+    fail("signature must be 128 lowercase hex characters");
+  if (typeof r.publicKey !== "string" || !HEX32.test(r.publicKey))
+    fail("publicKey must be 64 lowercase hex characters");
+  if (!Number.isSafeInteger(r.signedAt) || r.signedAt < 0)
+    fail("signedAt must be a non-negative integer");
+  for (const key of [
+    "message",
+    "messageBase64",
+    "tagId",
+    "firmware",
+    "challenge",
+  ]) {
+    if (r[key] !== undefined && typeof r[key] !== "string")
+      fail(`${key} must be a string`);
+  }
+  if (r.challenge?.includes("\n"))
+    fail("challenge must not contain a line break");
+  if (
+    r.digest !== undefined &&
+    (typeof r.digest !== "string" || !HEX64.test(r.digest))
+  )
+    fail("digest must be 128 lowercase hex characters");
+  if (r.message !== undefined && r.messageBase64 !== undefined)
+    fail("message and messageBase64 are exclusive");
+  if (
+    r.message === undefined &&
+    r.messageBase64 === undefined &&
+    r.digest === undefined
+  )
+    fail("one of message, messageBase64 or digest is required");
+  if (r.messageBase64 !== undefined) {
+    try {
+      base64ToBytes(r.messageBase64);
+    } catch {
+      fail("messageBase64 is not base64");
+    }
+  }
+  // Fresh copy with the fields in schema order, so JSON output is stable
+  const out: Record<string, unknown> = {};
+  for (const key of known) if (r[key] !== undefined) out[key] = r[key];
+  return out as Receipt;
+}
+
+// Compact form: a CBOR map with small integer keys
+const CBOR_KEYS = {
+  version: 1,
+  mode: 2,
+  message: 3,
+  messageBase64: 4, // carried as a byte string
+  digest: 5, // byte string
+  signature: 6, // byte string
+  publicKey: 7, // byte string
+  tagId: 8,
+  firmware: 9,
+  signedAt: 10,
+  challenge: 11,
+} as const;
+
+const MODE_CODES: Record<SignatureMode, number> = { pure: 0, ed25519ph: 1 };
+
+/**
+ * CBOR form of a receipt: a map with integer keys 1 `version`, 2 `mode`
+ * (0 pure, 1 ed25519ph), 3 `message`, 4 message bytes, 5 `digest`,
+ * 6 `signature`, 7 `publicKey`, 8 `tagId`, 9 `firmware`, 10 `signedAt`,
+ * 11 `challenge`. Binary fields are byte strings rather than hex/base64.
+ */
+export function encodeReceipt(receipt: Receipt): Uint8Array {
+  const r = parseReceipt(receipt);
+  const map = new Map<CborValue, CborValue>();
+  map.set(CBOR_KEYS.version, r.version);
+  map.set(CBOR_KEYS.mode, MODE_CODES[r.mode]);
+  if (r.message !== undefined) map.set(CBOR_KEYS.message, r.message);
+  if (r.messageBase64 !== undefined)
+    map.set(CBOR_KEYS.messageBase64, base64ToBytes(r.messageBase64));
+  if (r.digest !== undefined) map.set(CBOR_KEYS.digest, hexToBytes(r.digest));
+  map.set(CBOR_KEYS.signature, hexToBytes(r.signature));
+  map.set(CBOR_KEYS.publicKey, hexToBytes(r.publicKey));
+  if (r.tagId !== undefined) map.set(CBOR_KEYS.tagId, r.tagId);
+  if (r.firmware !== undefined) map.set(CBOR_KEYS.firmware, r.firmware);
+  map.set(CBOR_KEYS.signedAt, r.signedAt);
+  if (r.challenge !== undefined) map.set(CBOR_KEYS.challenge, r.challenge);
+  return encodeCbor(map);
+}
+
+export function decodeReceipt(bytes: Uint8Array): Receipt {
+  let map: CborValue;
+  try {
+    map = decodeCbor(bytes);
+  } catch (e) {
+    throw new ReceiptFormatError("Receipt is not valid CBOR", { cause: e });
+  }
+  if (!(map instanceof Map)) {
+    throw new ReceiptFormatError("Invalid receipt: not a CBOR map");
+  }
+  const out: Record<string, unknown> = {};
+  for (const [name, key] of Object.entries(CBOR_KEYS)) {
+    let value = map.get(key);
+    if (value === undefined) continue;
+    if (value instanceof Uint8Array) {
+      value =
+        name === "messageBase64" ? bytesToBase64(value) : bytesToHex(value);
+    }
+    out[name] = value;
+  }
+  const mode = Object.entries(MODE_CODES).find(([, c]) => c === out.mode);
+  out.mode = mode?.[0];
+  return parseReceipt(out);
+}
+
+/**
+ * Verifies a receipt in any form: a `Receipt` object, its JSON text or its
+ * CBOR bytes. Never throws; the verdict says what failed.
+ *
+ * A receipt with a `challenge` is checked against
+ * `challengeMessage(challenge, message)`, so it needs its message (embedded
+ * or passed in) even in `ed25519ph` mode.
+ */
+export function verifyReceipt(
+  input: Receipt | string | Uint8Array,
+  opts: VerifyReceiptOpts = {}
+): ReceiptVerification {
+  let receipt: Receipt;
+  try {
+    receipt =
+      input instanceof Uint8Array ? decodeReceipt(input) : parseReceipt(input);
+  } catch (e: any) {
+    return { valid: false, verdict: "malformed", error: e?.message };
+  }
+  const result = (verdict: ReceiptVerdict): ReceiptVerification => ({
+    valid: verdict === "valid",
+    verdict,
+    receipt,
+  });
+
+  if (opts.publicKey && opts.publicKey.toLowerCase() !== receipt.publicKey)
+    return result("key-mismatch");
+  if (opts.challenge !== undefined && opts.challenge !== receipt.challenge)
+    return result("challenge-mismatch");
+
+  const unbound =
+    receipt.message !== undefined
+      ? utf8(receipt.message)
+      : receipt.messageBase64 !== undefined
+        ? base64ToBytes(receipt.messageBase64)
+        : opts.message !== undefined
+          ? utf8(opts.message)
+          : undefined;
+  const message = unbound && signedData(unbound, receipt.challenge);
+
+  if (
+    message &&
+    receipt.digest &&
+    bytesToHex(prehashSha512(message)) !== receipt.digest
+  ) {
+    return result("digest-mismatch");
+  }
+
+  let ok: boolean;
+  if (message) {
+    ok = verifySignature(
+      message,
+      receipt.signature,
+      receipt.publicKey,
+      receipt.mode
+    );
+  } else if (
+    receipt.mode === "ed25519ph" &&
+    receipt.digest &&
+    receipt.challenge === undefined
+  ) {
+    ok = verifyDigestSignature(
+      hexToBytes(receipt.digest),
+      receipt.signature,
+      receipt.publicKey
+    );
+  } else {
+    return result("missing-message");
+  }
+  return result(ok ? "valid" : "bad-signature");
+}
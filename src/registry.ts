@@ -0,0 +1,254 @@
+import { KeyFormatError, StorageError, TagKeyConflictError } from "./errors";
+
+export type TagKeyRecord = {
+  serialNumber: string;
+  publicKey: string; // lowercase 64-hex
+  chipId?: string;
+  label?: string;
+  enrolledAt: number;
+  revokedAt?: number;
+};
+
+// Result of checking a reading against the registry
+export type TagTrust =
+  | "trusted"
+  | "unknown-key" // neither serial nor key enrolled
+  | "key-mismatch" // known serial reports a different key
+  | "serial-mismatch" // key is enrolled for another serial
+  | "chip-mismatch" // known serial reports a different chip ID
+  | "revoked";
+
+export interface TagKeyStorage {
+  load(): Promise<TagKeyRecord[]>;
+  save(records: TagKeyRecord[]): Promise<void>;
+}
+
+export class MemoryTagKeyStorage implements TagKeyStorage {
+  private records: TagKeyRecord[] = [];
+
+  async load() {
+    return this.records.map((r) => ({ ...r }));
+  }
+
+  async save(records: TagKeyRecord[]) {
+    this.records = records.map((r) => ({ ...r }));
+  }
+}
+
+export class LocalStorageTagKeyStorage implements TagKeyStorage {
+  private key: string;
+  private storage: Storage;
+
+  constructor(key = "uverify.tagKeys", storage: Storage = localStorage) {
+    this.key = key;
+    this.storage = storage;
+  }
+
+  async load() {
+    const raw = this.storage.getItem(this.key);
+    if (!raw) return [];
+    try {
+      return JSON.parse(raw) as TagKeyRecord[];
+    } catch (e) {
+      throw new StorageError(`Stored tag keys in "${this.key}" are corrupt`, {
+        cause: e,
+      });
+    }
+  }
+
+  async save(records: TagKeyRecord[]) {
+    this.storage.setItem(this.key, JSON.stringify(records));
+  }
+}
+
+export class IndexedDbTagKeyStorage implements TagKeyStorage {
+  private dbName: string;
+  private storeName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = "uverify", storeName = "tagKeys") {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  async load() {
+    const store = await this.store("readonly");
+    return request<TagKeyRecord[]>(store.getAll());
+  }
+
+  async save(records: TagKeyRecord[]) {
+    const store = await this.store("readwrite");
+    const done = transactionDone(store.transaction);
+    store.clear();
+    for (const record of records) store.put(record);
+    await done;
+  }
+
+  private async store(mode: IDBTransactionMode) {
+    this.db ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(this.dbName, 1);
+      req.onupgradeneeded = () =>
+        req.result.createObjectStore(this.storeName, {
+          keyPath: "serialNumber",
+        });
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    const db = await this.db;
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+}
+
+function request<T>(req: IDBRequest) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function normalizeKey(publicKey: string) {
+  const key = publicKey.trim().toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(key)) {
+    throw new KeyFormatError("Public key must be 64 hex characters");
+  }
+  return key;
+}
+
+/**
+ * Pins Ed25519 public keys to tag serial numbers (the `tagId` passed to
+ * `onReading`).
+ *
+ * Records are loaded from `storage` once and kept in memory, so `check` is
+ * synchronous; await `ready` before relying on it. `ready` and every
+ * mutation reject with `StorageError` when the records could not be loaded.
+ * Every mutation is written back to storage before its promise resolves.
+ */
+export class TagKeyRegistry {
+  readonly ready: Promise<void>;
+
+  private storage: TagKeyStorage;
+  private records = new Map<string, TagKeyRecord>();
+
+  constructor(storage: TagKeyStorage = new MemoryTagKeyStorage()) {
+    this.storage = storage;
+    this.ready = Promise.resolve()
+      .then(() => storage.load())
+      .then((records) => {
+        if (!Array.isArray(records)) {
+          throw new StorageError("Stored tag keys are not a list of records");
+        }
+        for (const r of records) this.records.set(r.serialNumber, r);
+      })
+      // Covers the adapter and anything above tripping over what it returned
+      .catch((e) => {
+        throw e instanceof StorageError
+          ? e
+          : new StorageError("Could not load the tag key registry", {
+              cause: e,
+            });
+      });
+    // Reported to whoever awaits it, not as an unhandled rejection
+    this.ready.catch(() => {});
+  }
+
+  async enroll(
+    serialNumber: string,
+    publicKey: string,
+    extra: { chipId?: string; label?: string; replace?: boolean } = {}
+  ) {
+    await this.ready;
+    const key = normalizeKey(publicKey);
+    const existing = this.records.get(serialNumber);
+    if (
+      existing &&
+      !existing.revokedAt &&
+      existing.publicKey !== key &&
+      !extra.replace
+    ) {
+      throw new TagKeyConflictError(serialNumber);
+    }
+    const record: TagKeyRecord = {
+      serialNumber,
+      publicKey: key,
+      enrolledAt: Date.now(),
+    };
+    if (extra.chipId) record.chipId = extra.chipId;
+    if (extra.label) record.label = extra.label;
+    this.records.set(serialNumber, record);
+    await this.persist();
+    return record;
+  }
+
+  lookup(serialNumber: string): TagKeyRecord | undefined {
+    const record = this.records.get(serialNumber);
+    return record && { ...record };
+  }
+
+  async revoke(serialNumber: string) {
+    await this.ready;
+    const record = this.records.get(serialNumber);
+    if (!record || record.revokedAt) return false;
+    record.revokedAt = Date.now();
+    await this.persist();
+    return true;
+  }
+
+  check(
+    serialNumber: string | undefined,
+    reported: { publicKey?: string; chipId?: string }
+  ): TagTrust {
+    const key = reported.publicKey?.toLowerCase();
+    const record =
+      serialNumber !== undefined ? this.records.get(serialNumber) : undefined;
+
+    if (record) {
+      if (record.revokedAt) return "revoked";
+      if (key && key !== record.publicKey) return "key-mismatch";
+      if (reported.chipId && record.chipId && reported.chipId !== record.chipId)
+        return "chip-mismatch";
+      return "trusted";
+    }
+
+    if (key) {
+      for (const r of this.records.values()) {
+        if (r.publicKey !== key) continue;
+        if (r.revokedAt) return "revoked";
+        return serialNumber === undefined ? "trusted" : "serial-mismatch";
+      }
+    }
+    return "unknown-key";
+  }
+
+  export(): TagKeyRecord[] {
+    return [...this.records.values()].map((r) => ({ ...r }));
+  }
+
+  // Merges records (newer enrolments win) unless `replace` drops the rest
+  async import(records: TagKeyRecord[], opts: { replace?: boolean } = {}) {
+    await this.ready;
+    const incoming = records.map((r) => ({
+      ...r,
+      publicKey: normalizeKey(r.publicKey),
+    }));
+    if (opts.replace) this.records.clear();
+    for (const r of incoming) {
+      const existing = this.records.get(r.serialNumber);
+      if (!existing || existing.enrolledAt <= r.enrolledAt) {
+        this.records.set(r.serialNumber, r);
+      }
+    }
+    await this.persist();
+  }
+
+  private persist() {
+    return this.storage.save(this.export());
+  }
+}
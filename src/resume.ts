@@ -0,0 +1,103 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import { StorageError } from "./errors";
+
+// Snapshot of a signing run, saved so it can outlive a page reload
+export type PendingSigning = {
+  // Serial number of the tag the message was written to, once seen
+  tagId?: string;
+  // SHA-256 (hex) of the UTF-8 message
+  messageHash: string;
+  message: string;
+  publicKey: string;
+  // Last state reported by the tag, or "WRITTEN" before the first read
+  phase: string;
+  stepsRemaining?: number;
+  startedAt: number;
+  updatedAt: number;
+};
+
+export interface SigningStateStorage {
+  load(): Promise<PendingSigning | null>;
+  save(state: PendingSigning): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class MemorySigningStateStorage implements SigningStateStorage {
+  private state: PendingSigning | null = null;
+
+  async load() {
+    return this.state && { ...this.state };
+  }
+
+  async save(state: PendingSigning) {
+    this.state = { ...state };
+  }
+
+  async clear() {
+    this.state = null;
+  }
+}
+
+export class LocalStorageSigningStateStorage implements SigningStateStorage {
+  private key: string;
+  private storage: Storage;
+
+  constructor(key = "uverify.pendingSigning", storage: Storage = localStorage) {
+    this.key = key;
+    this.storage = storage;
+  }
+
+  async load() {
+    const raw = this.storage.getItem(this.key);
+    if (!raw) return null;
+    let state: unknown;
+    try {
+      state = JSON.parse(raw);
+    } catch (e) {
+      throw new StorageError(`Stored signing run in "${this.key}" is corrupt`, {
+        cause: e,
+      });
+    }
+    if (!isPendingSigning(state)) {
+      throw new StorageError(`Stored signing run in "${this.key}" is corrupt`);
+    }
+    return state;
+  }
+
+  async save(state: PendingSigning) {
+    this.storage.setItem(this.key, JSON.stringify(state));
+  }
+
+  async clear() {
+    this.storage.removeItem(this.key);
+  }
+}
+
+function isPendingSigning(value: unknown): value is PendingSigning {
+  const state = value as PendingSigning | null;
+  return (
+    typeof state === "object" &&
+    state !== null &&
+    typeof state.messageHash === "string" &&
+    typeof state.message === "string" &&
+    typeof state.publicKey === "string" &&
+    typeof state.phase === "string"
+  );
+}
+
+export function hashMessage(message: string) {
+  return bytesToHex(sha256(utf8ToBytes(message)));
+}
+
+// Tag states that mean a computation is under way or finished
+export function isSigningPhase(state: string) {
+  return (
+    state === "PH_INIT_K" ||
+    state === "PH_INIT_R" ||
+    state === "PH_R_WORK" ||
+    state === "PH_R_DONE" ||
+    state === "PH_DONE" ||
+    state === "BUSY"
+  );
+}
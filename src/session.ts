@@ -0,0 +1,808 @@
+import { authenticateTag, type AuthOpts } from "./authenticate";
+import { DEFAULT_NDEF_CAPACITY, measureNdef } from "./capacity";
+import {
+  encodeCommand,
+  type CommandEncoding,
+  type EdSignCommand,
+} from "./commands";
+import { Emitter } from "./emitter";
+import type { LogLevel, NfcLogger } from "./logger";
+import {
+  DeviceReportedError,
+  MessageTooLargeError,
+  NfcError,
+  NfcIoError,
+  NfcPermissionError,
+  NfcUnsupportedError,
+  ProtocolParseError,
+  StorageError,
+  TagMismatchError,
+  TimeoutError,
+  toNfcError,
+  UnknownProtocolError,
+} from "./errors";
+import {
+  parseEdSignTextStatus,
+  readTextRecords,
+  tryParseFromEvent,
+  type EdSignStatus,
+  type NfcReading,
+} from "./parser";
+import {
+  createDefaultProtocols,
+  type ProtocolParser,
+  type ProtocolRegistry,
+} from "./protocol";
+import type { TagKeyRegistry } from "./registry";
+import {
+  isSigningPhase,
+  type PendingSigning,
+  type SigningStateStorage,
+} from "./resume";
+import { ProgressTracker, type SigningTelemetry } from "./telemetry";
+import {
+  resumeSigning,
+  signBytes,
+  signMessage,
+  type ResumeOpts,
+  type SignBytesOpts,
+  type SignOpts,
+} from "./sign";
+import {
+  WebNfcTransport,
+  type NdefMessageInit,
+  type NdefReadingEvent,
+  type NdefRecord,
+  type NdefRecordInit,
+  type NfcTransport,
+} from "./transport";
+import { verifyDigestSignature, verifySignature } from "./verify";
+
+export type OnReading = (
+  tagId: string | undefined,
+  payload: NfcReading
+) => void;
+export type OnError = (err: NfcError) => void;
+
+// What the session last saw from one tag, keyed by its serial number
+export type TagState = {
+  tagId: string;
+  lastReading: NfcReading;
+  // Last read, even when the reading had not changed
+  lastSeen: number;
+  // Last EdSign status state, e.g. PH_IDLE or PH_R_WORK
+  phase?: NonNullable<EdSignStatus>["state"];
+  pubkey?: string;
+};
+
+/**
+ * Whether a tag is in the field: `present` while it reads, `leaving` once
+ * reads stop or fail for `leaveAfterMs` ("hold your phone still"), `lost`
+ * after `lostAfterMs` without a read ("bring it back"). `absent` until the
+ * first read.
+ */
+export type TagPresence = "absent" | "present" | "leaving" | "lost";
+
+export type StartOpts = {
+  pollMs?: number;
+  deepResetEveryMs?: number;
+  deepResetPauseMs?: number;
+  staleAfterMs?: number;
+};
+
+export type NfcSessionOpts = {
+  // Defaults to Web NFC (window.NDEFReader)
+  transport?: NfcTransport;
+  // Verify PH_DONE signatures against the last message passed to writeText
+  autoVerify?: boolean;
+  // Expected tag key; falls back to the last PH_IDLE pubkey seen
+  publicKey?: string;
+  // Flags PH_IDLE pubkeys and device info with a `trust` verdict
+  registry?: TagKeyRegistry;
+  // Firmware parsers to detect from; defaults to the built-in revisions
+  protocols?: ProtocolRegistry;
+  // Pin a firmware version (or parser) instead of detecting it
+  protocol?: string | ProtocolParser;
+  // Command encoding for sendCommand; "legacy" suits current firmware
+  commandEncoding?: CommandEncoding;
+  // "stalled" fires once the R counter has not moved for stallAfterMs
+  // (default 10000) over at least stallAfterReads reads (default 5)
+  stallAfterReads?: number;
+  stallAfterMs?: number;
+  // Saves signMessage runs so they can be resumed after a page reload
+  signingState?: SigningStateStorage;
+  // Usable NDEF bytes of the tag; a capacity announced in device info wins
+  ndefCapacity?: number;
+  // Structured debug events (scans, rescans, records, parses); silent if unset
+  logger?: NfcLogger;
+  // Presence timeouts since the last read (defaults 1500 and 5000)
+  leaveAfterMs?: number;
+  lostAfterMs?: number;
+};
+
+export type NfcSessionEvents = {
+  reading: Parameters<OnReading>;
+  error: Parameters<OnError>;
+  protocol: [version: string, tagId: string | undefined];
+  telemetry: [telemetry: SigningTelemetry, tagId: string | undefined];
+  stalled: [telemetry: SigningTelemetry, tagId: string | undefined];
+  // The tag of an interrupted run is back and still computing
+  resumable: [pending: PendingSigning, tagId: string | undefined];
+  tagEnter: [tagId: string | undefined];
+  tagLeave: [tagId: string | undefined];
+  tagLost: [tagId: string | undefined];
+  presence: [presence: TagPresence, tagId: string | undefined];
+};
+
+let builtinProtocols: ProtocolRegistry | undefined;
+function defaultProtocols() {
+  return (builtinProtocols ??= createDefaultProtocols());
+}
+
+type Verifier = (signature: string, publicKey: string) => boolean;
+
+// Undefined for commands that do not ask the tag to sign anything
+function writtenVerifier(cmd: EdSignCommand): Verifier | undefined {
+  switch (cmd.op) {
+    case "sign":
+      return (sig, pub) => verifySignature(cmd.message, sig, pub);
+    case "signBytes":
+      return (sig, pub) => verifySignature(cmd.data, sig, pub);
+    case "signDigest":
+      return (sig, pub) => verifyDigestSignature(cmd.digest, sig, pub);
+  }
+}
+
+// Short, JSON-friendly description of a record for the log
+function summarize(record: NdefRecordInit | NdefRecord) {
+  const { recordType, mediaType, data } = record;
+  const summary: Record<string, unknown> = { recordType };
+  if (mediaType) summary.mediaType = mediaType;
+  if (typeof data === "string") {
+    summary.text = data.length > 80 ? data.slice(0, 80) + "…" : data;
+  } else if (data) {
+    summary.bytes = data.byteLength;
+    if (recordType === "text") {
+      const text = new TextDecoder().decode(data);
+      summary.text = text.length > 80 ? text.slice(0, 80) + "…" : text;
+    }
+  }
+  return summary;
+}
+
+function textMessage(text: string): NdefMessageInit {
+  return { records: [{ recordType: "text", data: text }] };
+}
+
+function sleep(ms: number) {
+  return new Promise<void>((r) => setTimeout(r, ms));
+}
+
+/**
+ * Framework-agnostic Web NFC scanning session.
+ *
+ * Owns the transport, the rescan/deep-reset polling loop and reading
+ * deduplication. Subscribe with `on("reading", ...)` and `on("error", ...)`.
+ * `useWebNfc` is a thin React wrapper around one instance of this class.
+ */
+export class NfcSession extends Emitter<NfcSessionEvents> {
+  private opts: NfcSessionOpts;
+
+  private transport: NfcTransport;
+  private listenersAttached = false;
+  private controller: AbortController | null = null;
+
+  private scanInterval: ReturnType<typeof setInterval> | undefined;
+  private rescanTimer: ReturnType<typeof setTimeout> | undefined;
+  // Bumped by every start and stop; scans still starting from an older
+  // generation give up instead of outliving stopScan
+  private scanGeneration = 0;
+  // Continuous scan between startScan and stopScan; rescans only run then
+  private scanning = false;
+  private restarting = false;
+
+  private pollingMs = 1000;
+  private deepEvery = 10000;
+  private deepPause = 1800;
+  private staleAfter = 5000;
+
+  // Last reading JSON per tag ("" for readings without a serial number)
+  private lastPayloads = new Map<string, string>();
+  private lastUpdateTs = 0;
+  private lastDeepResetTs = 0;
+
+  // control rescan after reading for single-shot reads
+  private suppressRescan = false;
+  private readCount = 0;
+
+  // Checks a signature against the last message written, and the last
+  // pubkey reported by the tag
+  private lastWritten: Verifier | null = null;
+  private seenPubkey: string | null = null;
+
+  private tagStates = new Map<string, TagState>();
+  // Tag the last message went to; undefined until a tag claims the run
+  private writtenTag: string | undefined;
+  private hasWritten = false;
+
+  // Firmware parser locked onto for the current tag
+  private protocol: ProtocolParser | null = null;
+  private protocolTag: string | undefined;
+
+  private tracker = new ProgressTracker();
+
+  // Capacity announced by the last tag that reported one
+  private probedCapacity: number | undefined;
+
+  private presenceState: TagPresence = "absent";
+  private presenceTag: string | undefined;
+  private lastPresentTs = 0;
+  private presenceTimer: ReturnType<typeof setTimeout> | undefined;
+
+  // Run saved before this session started; undefined until loaded
+  private pending: PendingSigning | null | undefined;
+  private resumeOffered = false;
+
+  constructor(opts: NfcSessionOpts = {}) {
+    super();
+    this.transport = opts.transport ?? new WebNfcTransport();
+    this.opts = {};
+    this.configure(opts);
+  }
+
+  get isSupported() {
+    return this.transport.isSupported;
+  }
+
+  configure(opts: Omit<NfcSessionOpts, "transport">) {
+    if (opts.signingState !== this.opts.signingState) {
+      this.pending = undefined;
+      this.resumeOffered = false;
+    }
+    this.opts = { ...this.opts, ...opts };
+    if (this.opts.stallAfterReads !== undefined) {
+      this.tracker.stallAfterReads = this.opts.stallAfterReads;
+    }
+    if (this.opts.stallAfterMs !== undefined) {
+      this.tracker.stallAfterMs = this.opts.stallAfterMs;
+    }
+  }
+
+  // Version of the firmware parser in use, once detected or pinned
+  get protocolVersion() {
+    return this.pinnedProtocol()?.version ?? this.protocol?.version;
+  }
+
+  // Forget the detected firmware so the next idle reply detects it again
+  resetProtocol() {
+    this.protocol = null;
+    this.protocolTag = undefined;
+  }
+
+  get presence() {
+    return this.presenceState;
+  }
+
+  // Forget the tag in the field and stop the presence timer, without events
+  resetPresence() {
+    clearTimeout(this.presenceTimer);
+    this.presenceTimer = undefined;
+    this.presenceState = "absent";
+    this.presenceTag = undefined;
+  }
+
+  async startScan(opts?: StartOpts) {
+    this.pollingMs = Math.max(250, opts?.pollMs ?? 1000);
+    this.deepEvery = Math.max(3000, opts?.deepResetEveryMs ?? 10000);
+    this.deepPause = Math.max(500, opts?.deepResetPauseMs ?? 1800);
+    this.staleAfter = Math.max(2000, opts?.staleAfterMs ?? 5000);
+
+    this.lastPayloads.clear();
+    const generation = ++this.scanGeneration;
+    this.scanning = true;
+
+    // Ensure continuous mode
+    this.suppressRescan = false;
+    this.log("info", "scan-start", {
+      mode: "continuous",
+      pollMs: this.pollingMs,
+    });
+
+    await this.doScan();
+    if (generation !== this.scanGeneration) return;
+    this.lastDeepResetTs = Date.now();
+    this.lastUpdateTs = Date.now();
+
+    this.stopPolling();
+    this.scanInterval = setInterval(async () => {
+      const now = Date.now();
+      const dueDeep = now - this.lastDeepResetTs >= this.deepEvery;
+      const stale = now - this.lastUpdateTs >= this.staleAfter;
+
+      if (dueDeep || stale) {
+        await this.deepReset();
+      } else {
+        await this.rescanNow("interval");
+      }
+    }, this.pollingMs);
+  }
+
+  // single-shot read that stops after first reading event or timeout
+  async startSingleRead(timeoutMs = 3000) {
+    // Disable auto rescan & interval polling
+    this.suppressRescan = true;
+    this.stopPolling();
+    ++this.scanGeneration;
+    this.scanning = false;
+
+    this.lastPayloads.clear();
+    this.log("info", "scan-start", { mode: "single", timeoutMs });
+
+    await this.doScan();
+
+    // Timeout to abort if nothing is read
+    const localController = this.controller;
+    const readsBefore = this.readCount;
+    const to = setTimeout(() => {
+      if (
+        this.controller === localController &&
+        !localController?.signal.aborted &&
+        this.readCount === readsBefore
+      ) {
+        this.log("info", "scan-abort", { reason: "single-read-timeout" });
+        this.controller?.abort();
+        this.reportError(new TimeoutError("No tag read before the timeout"));
+      }
+    }, timeoutMs);
+
+    // Return a disposer for the internal timeout (optional for caller)
+    return () => clearTimeout(to);
+  }
+
+  stopScan() {
+    if (this.controller && !this.controller.signal.aborted)
+      this.log("info", "scan-abort", { reason: "stop" });
+    this.scanGeneration++;
+    this.scanning = false;
+    this.stopPolling();
+    this.controller?.abort();
+    // Return to default mode for next call
+    this.suppressRescan = false;
+  }
+
+  // Per-tag state of every tag read so far
+  get tags(): ReadonlyMap<string, TagState> {
+    return new Map(
+      [...this.tagStates].map(([tagId, state]) => [tagId, { ...state }])
+    );
+  }
+
+  get ndefCapacity() {
+    return (
+      this.probedCapacity ?? this.opts.ndefCapacity ?? DEFAULT_NDEF_CAPACITY
+    );
+  }
+
+  // Size of a writeText string or command on the tag, and what is left
+  measure(input: string | EdSignCommand, encoding?: CommandEncoding) {
+    const message =
+      typeof input === "string"
+        ? textMessage(input)
+        : encodeCommand(
+            input,
+            encoding ?? this.opts.commandEncoding ?? "legacy"
+          );
+    return measureNdef(message, this.ndefCapacity);
+  }
+
+  async writeText(text: string) {
+    if (!this.isSupported) throw new NfcUnsupportedError();
+    await this.write(textMessage(text));
+    this.lastWritten = (sig, pub) => verifySignature(text, sig, pub);
+  }
+
+  // Encode and write a typed command; sign commands are kept for autoVerify
+  async sendCommand(cmd: EdSignCommand, encoding?: CommandEncoding) {
+    if (!this.isSupported) throw new NfcUnsupportedError();
+    const message = encodeCommand(
+      cmd,
+      encoding ?? this.opts.commandEncoding ?? "legacy"
+    );
+    if (message) await this.write(message);
+    this.lastWritten = writtenVerifier(cmd) ?? this.lastWritten;
+  }
+
+  // Write a message and power-cycle the tag until it has signed it
+  signMessage(message: string, opts?: SignOpts) {
+    // A new run replaces whatever was saved before
+    this.pending = null;
+    return signMessage(this, message, {
+      persist: this.opts.signingState,
+      ...opts,
+    });
+  }
+
+  // Sign binary data, optionally as an Ed25519ph digest; not persisted
+  signBytes(data: Uint8Array, opts?: SignBytesOpts) {
+    return signBytes(this, data, opts);
+  }
+
+  // Interrupted run saved in `signingState`, if any; rejects with
+  // StorageError when it cannot be loaded
+  async getPendingSigning() {
+    const storage = this.opts.signingState;
+    if (!storage) return null;
+    if (this.pending === undefined) {
+      try {
+        this.pending = await storage.load();
+      } catch (e) {
+        throw e instanceof StorageError
+          ? e
+          : new StorageError("Could not load the pending signing run", {
+              cause: e,
+            });
+      }
+    }
+    return this.pending;
+  }
+
+  // Finish the saved run without writing to the tag again
+  resumeSigning(opts?: ResumeOpts) {
+    const storage = this.opts.signingState;
+    if (!storage) {
+      return Promise.reject(new NfcError("No signingState storage configured"));
+    }
+    this.pending = null;
+    return resumeSigning(this, storage, opts);
+  }
+
+  async discardPendingSigning() {
+    this.pending = null;
+    await this.opts.signingState?.clear();
+  }
+
+  // Challenge-response check that the tag holds its private key
+  authenticateTag(opts?: AuthOpts) {
+    return authenticateTag(this, opts);
+  }
+
+  // Oversize writes fail opaquely or get truncated by the firmware
+  private async write(message: NdefMessageInit) {
+    const report = measureNdef(message, this.ndefCapacity);
+    if (!report.fits) {
+      throw new MessageTooLargeError(report.size, report.capacity);
+    }
+    this.log("info", "write", { records: message.records.map(summarize) });
+    try {
+      await this.transport.write(message);
+    } catch (e) {
+      throw toNfcError(e, "write");
+    }
+    // Web NFC does not say which tag took the write; the tag being read
+    // right now did, otherwise the first one to start signing claims it
+    this.hasWritten = true;
+    this.writtenTag = this.currentTag();
+  }
+
+  private currentTag() {
+    let current: TagState | undefined;
+    for (const state of this.tagStates.values()) {
+      if (!current || state.lastSeen > current.lastSeen) current = state;
+    }
+    return current && Date.now() - current.lastSeen < this.staleAfter
+      ? current.tagId
+      : undefined;
+  }
+
+  private handleReading(event: NdefReadingEvent) {
+    this.readCount++;
+    try {
+      const tagId = event.serialNumber;
+      this.markPresent(tagId);
+      this.log("debug", "records", {
+        tagId,
+        records: event.message.records.map(summarize),
+      });
+      const parser = this.resolveProtocol(tagId, event);
+      const parsed = tryParseFromEvent(
+        event,
+        parser?.parse ?? parseEdSignTextStatus
+      );
+      this.log("debug", "parsed", { tagId, reading: parsed });
+      if (parsed) this.trackTag(tagId, parsed);
+      const foreign = parsed ? this.fromOtherTag(tagId, parsed) : false;
+      if (parsed?.kind === "status" && parsed.state === "PH_IDLE")
+        this.seenPubkey = parsed.pubkey;
+      if (parsed?.kind === "status" && parsed.state === "PH_DONE" && !foreign)
+        this.maybeVerify(tagId, parsed);
+      if (parsed?.kind === "device-info" && parsed.capacity !== undefined)
+        this.probedCapacity = parsed.capacity;
+      if (parsed) this.checkTrust(tagId, parsed);
+      if (parsed) this.trackProgress(tagId, parsed);
+      if (parsed && this.emitIfChanged(tagId, parsed, foreign))
+        this.reportFailure(tagId, parsed, parser);
+      if (parsed) this.offerResume(tagId, parsed);
+
+      // only schedule rescan if not in single-shot mode
+      if (!this.suppressRescan) {
+        clearTimeout(this.rescanTimer);
+        this.rescanTimer = setTimeout(
+          () => void this.rescanNow("after-reading"),
+          150
+        );
+      }
+    } catch (e) {
+      this.reportError(
+        e instanceof NfcError
+          ? e
+          : new NfcError("Failed to handle reading", { cause: e })
+      );
+    }
+  }
+
+  // Device errors and replies the active firmware parser rejected
+  private reportFailure(
+    tagId: string | undefined,
+    reading: NfcReading,
+    parser: ProtocolParser | null | undefined
+  ) {
+    if (reading.kind === "status" && reading.state === "ERROR") {
+      this.reportError(new DeviceReportedError(reading.error, tagId));
+    } else if (reading.kind === "raw-text" && parser) {
+      this.reportError(new ProtocolParseError(reading.text, parser.version));
+    }
+  }
+
+  private maybeVerify(
+    tagId: string | undefined,
+    status: Extract<NfcReading, { state: "PH_DONE" }>
+  ) {
+    if (!this.opts.autoVerify || !status.signature) return;
+    const verifier = this.lastWritten;
+    const pubkey =
+      this.opts.publicKey ??
+      (tagId !== undefined ? this.tagStates.get(tagId)?.pubkey : undefined) ??
+      this.seenPubkey;
+    if (!verifier || !pubkey) return;
+    status.verified = verifier(status.signature, pubkey);
+  }
+
+  private pinnedProtocol() {
+    const pinned = this.opts.protocol;
+    if (typeof pinned !== "string") return pinned;
+    const parser = (this.opts.protocols ?? defaultProtocols()).get(pinned);
+    if (!parser) throw new UnknownProtocolError(pinned);
+    return parser;
+  }
+
+  private resolveProtocol(tagId: string | undefined, event: NdefReadingEvent) {
+    const pinned = this.pinnedProtocol();
+    if (pinned) return pinned;
+
+    // A different tag may run different firmware
+    if (this.protocol && this.protocolTag !== tagId) this.resetProtocol();
+
+    if (!this.protocol) {
+      const protocols = this.opts.protocols ?? defaultProtocols();
+      for (const text of readTextRecords(event)) {
+        const detected = protocols.detect(text);
+        if (detected) {
+          this.protocol = detected;
+          this.protocolTag = tagId;
+          this.log("info", "protocol", { version: detected.version, tagId });
+          this.emit("protocol", detected.version, tagId);
+          break;
+        }
+      }
+    }
+    return this.protocol;
+  }
+
+  // Runs on every raw read; the tracker times stalls, not just counts reads
+  private trackProgress(tagId: string | undefined, reading: NfcReading) {
+    const { telemetry, stalled } = this.tracker.update(reading);
+    if (telemetry)
+      this.emit(stalled ? "stalled" : "telemetry", telemetry, tagId);
+  }
+
+  private offerResume(tagId: string | undefined, reading: NfcReading) {
+    const pending = this.pending;
+    if (!pending || this.resumeOffered || reading.kind !== "status") return;
+    if (pending.tagId !== undefined && pending.tagId !== tagId) return;
+    if (!isSigningPhase(reading.state)) return;
+    this.resumeOffered = true;
+    this.emit("resumable", pending, tagId);
+  }
+
+  private checkTrust(tagId: string | undefined, reading: NfcReading) {
+    const registry = this.opts.registry;
+    if (!registry) return;
+    if (reading.kind === "status" && reading.state === "PH_IDLE") {
+      reading.trust = registry.check(tagId, { publicKey: reading.pubkey });
+    } else if (reading.kind === "device-info") {
+      reading.trust = registry.check(tagId, reading);
+    }
+  }
+
+  private trackTag(tagId: string | undefined, reading: NfcReading) {
+    if (tagId === undefined) return;
+    const state: TagState = this.tagStates.get(tagId) ?? {
+      tagId,
+      lastReading: reading,
+      lastSeen: 0,
+    };
+    state.lastReading = reading;
+    state.lastSeen = Date.now();
+    if (reading.kind === "status") {
+      state.phase = reading.state;
+      if (reading.state === "PH_IDLE") state.pubkey = reading.pubkey;
+    } else if (reading.kind === "device-info" && reading.publicKey) {
+      state.pubkey = reading.publicKey;
+    }
+    this.tagStates.set(tagId, state);
+  }
+
+  // A PH_DONE from any tag but the one written to is not our signature
+  private fromOtherTag(tagId: string | undefined, reading: NfcReading) {
+    if (reading.kind !== "status" || tagId === undefined) return false;
+    if (!this.hasWritten) return false;
+    if (this.writtenTag === undefined) {
+      if (isSigningPhase(reading.state)) this.writtenTag = tagId;
+      return false;
+    }
+    return reading.state === "PH_DONE" && tagId !== this.writtenTag;
+  }
+
+  // Deduplicates per tag; a foreign PH_DONE is reported instead of emitted
+  private emitIfChanged(
+    tagId: string | undefined,
+    payload: NfcReading,
+    foreign: boolean
+  ) {
+    const sig = JSON.stringify(payload);
+    if (sig === this.lastPayloads.get(tagId ?? "")) return false;
+    this.lastPayloads.set(tagId ?? "", sig);
+    this.lastUpdateTs = Date.now();
+    if (foreign) {
+      this.reportError(new TagMismatchError(this.writtenTag!, tagId!));
+      return false;
+    }
+    this.emit("reading", tagId, payload);
+    return true;
+  }
+
+  private async doScan() {
+    const generation = this.scanGeneration;
+    if (!this.isSupported)
+      throw new NfcUnsupportedError("Web NFC not supported in this browser");
+
+    // Trust checks run synchronously against the loaded registry
+    await this.opts.registry?.ready;
+    // Loaded once so a returning tag can be offered for resumption; broken
+    // storage only costs the offer, so it is reported and scanning goes on
+    await this.getPendingSigning().catch((e: StorageError) =>
+      this.reportError(e)
+    );
+
+    if (!this.listenersAttached) {
+      this.listenersAttached = true;
+
+      this.transport.onReading((event) => this.handleReading(event));
+
+      // Non-NDEF or tag moved - not fatal, but worth telling the app
+      this.transport.onReadingError((event) => {
+        if (this.presenceState === "present") this.setPresence("leaving");
+        this.reportError(
+          new NfcIoError("Tag could not be read", { cause: event })
+        );
+      });
+    }
+
+    this.controller?.abort();
+    await sleep(50);
+    if (generation !== this.scanGeneration) return;
+    this.controller = new AbortController();
+    try {
+      await this.transport.scan({ signal: this.controller.signal });
+    } catch (e: any) {
+      if (e?.name === "AbortError") return;
+      throw toNfcError(e, "scan");
+    }
+  }
+
+  private async rescanNow(reason: string) {
+    // A reading delivered after stopScan must not start scanning again
+    if (this.restarting || !this.scanning) return;
+    this.log("debug", "rescan", { reason });
+    this.restarting = true;
+    try {
+      await this.backgroundScan();
+    } finally {
+      this.restarting = false;
+    }
+  }
+
+  private async deepReset() {
+    this.log("debug", "deep-reset", { pauseMs: this.deepPause });
+    this.controller?.abort();
+    await sleep(this.deepPause);
+    if (!this.scanning) return;
+    await this.backgroundScan();
+    this.lastDeepResetTs = Date.now();
+  }
+
+  // Rescans nobody awaits report through "error"; lost access stops polling
+  private async backgroundScan() {
+    try {
+      await this.doScan();
+    } catch (e) {
+      const err = toNfcError(e, "scan");
+      if (
+        err instanceof NfcPermissionError ||
+        err instanceof NfcUnsupportedError
+      ) {
+        this.stopPolling();
+      }
+      this.reportError(err);
+    }
+  }
+
+  private markPresent(tagId: string | undefined) {
+    this.lastPresentTs = Date.now();
+    if (this.presenceState !== "absent" && tagId !== this.presenceTag) {
+      // Another tag took its place
+      if (this.presenceState !== "lost") this.setPresence("lost");
+    }
+    this.presenceTag = tagId;
+    if (this.presenceState !== "present") this.setPresence("present");
+    this.armPresenceTimer();
+  }
+
+  // One timer, re-armed for whichever threshold comes next
+  private armPresenceTimer() {
+    clearTimeout(this.presenceTimer);
+    const leaveAfter = this.opts.leaveAfterMs ?? 1500;
+    const lostAfter = Math.max(leaveAfter, this.opts.lostAfterMs ?? 5000);
+    const idle = Date.now() - this.lastPresentTs;
+    const next = idle < leaveAfter ? leaveAfter : lostAfter;
+    this.presenceTimer = setTimeout(() => {
+      this.presenceTimer = undefined;
+      if (Date.now() - this.lastPresentTs >= lostAfter) {
+        this.setPresence("lost");
+        return;
+      }
+      if (this.presenceState === "present") this.setPresence("leaving");
+      this.armPresenceTimer();
+    }, next - idle);
+  }
+
+  private setPresence(presence: TagPresence) {
+    if (presence === this.presenceState) return;
+    this.presenceState = presence;
+    const tagId = this.presenceTag;
+    this.log("info", "presence", { presence, tagId });
+    if (presence === "present") this.emit("tagEnter", tagId);
+    if (presence === "leaving") this.emit("tagLeave", tagId);
+    if (presence === "lost") this.emit("tagLost", tagId);
+    this.emit("presence", presence, tagId);
+  }
+
+  private reportError(err: NfcError) {
+    this.log("error", "error", { name: err.name, message: err.message });
+    this.emit("error", err);
+  }
+
+  private log(level: LogLevel, event: string, data?: Record<string, unknown>) {
+    this.opts.logger?.log({ ts: Date.now(), level, event, data });
+  }
+
+  private stopPolling() {
+    // A pending after-reading rescan would start scanning again
+    clearTimeout(this.rescanTimer);
+    this.rescanTimer = undefined;
+    if (this.scanInterval !== undefined) {
+      clearInterval(this.scanInterval);
+      this.scanInterval = undefined;
+    }
+  }
+}
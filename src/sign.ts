@@ -0,0 +1,462 @@
+import type { EdSignCommand } from "./commands";
+import {
+  CommandEncodingError,
+  DeviceReportedError,
+  MessageTooLargeError,
+  NfcUnsupportedError,
+  SigningError,
+  TimeoutError,
+  type SigningFailure,
+} from "./errors";
+import { prehashSha512 } from "./prehash";
+import {
+  hashMessage,
+  type PendingSigning,
+  type SigningStateStorage,
+} from "./resume";
+import type { NfcSession, StartOpts } from "./session";
+import type { SigningTelemetry } from "./telemetry";
+import {
+  verifyDigestSignature,
+  verifySignature,
+  type SignatureMode,
+} from "./verify";
+
+export type SignProgress = {
+  state: string;
+  progress: number;
+  stepsRemaining?: number;
+  stepsPerSecond?: number;
+  etaMs?: number;
+  cycle: number;
+};
+
+export type SignOpts = {
+  onProgress?: (p: SignProgress) => void;
+  // The R counter stopped moving; prompt the user to reposition the phone
+  onStalled?: (t: SigningTelemetry) => void;
+  signal?: AbortSignal;
+  // Overall budget for key lookup, write and all power cycles
+  maxDurationMs?: number;
+  maxCycles?: number;
+  // Tag key; read from the tag with a "pubkey" command when omitted
+  publicKey?: string;
+  // Reject with "invalid-signature" unless the result verifies (default true)
+  verify?: boolean;
+  // Power-cycle timing: field on for powerOnMs, then a readMs status read
+  powerOnMs?: number;
+  readMs?: number;
+  // Saves the run after every read so it can be resumed after a reload
+  persist?: SigningStateStorage;
+};
+
+export type SignBytesOpts = Omit<SignOpts, "persist"> & {
+  // Send only the SHA-512 digest and have the tag sign it as Ed25519ph
+  prehash?: boolean;
+};
+
+export type ResumeOpts = Omit<SignOpts, "publicKey" | "persist"> & {
+  // Checked against the saved hash; defaults to the saved message
+  message?: string;
+};
+
+export type SignResult = {
+  signature: string;
+  publicKey: string;
+  tagId: string | undefined;
+  // Which rule verifySignature must apply to the signed data
+  mode: SignatureMode;
+  // Firmware protocol version that produced the signature, when known
+  firmware: string | undefined;
+};
+
+// What gets written and how its signature is checked
+type SignJob = {
+  cmd: EdSignCommand;
+  mode: SignatureMode;
+  verify: (signature: string, publicKey: string) => boolean;
+  // Only text messages are saved for resumption
+  text?: string;
+};
+
+// Scan settings for the power cycles: poll fast, never deep-reset
+const CYCLE_SCAN: StartOpts = {
+  pollMs: 300,
+  deepResetEveryMs: 999999,
+  deepResetPauseMs: 0,
+  staleAfterMs: 999999,
+};
+
+const KEY_READ_MS = 5000;
+const SETTLE_MS = 500;
+
+/**
+ * Sends `message` to the tag as a sign command and drives the power/read cycles the LPC8N04
+ * needs until it reports `PH_DONE`.
+ *
+ * Resolves with the signature, the tag's public key and its serial number.
+ * Rejects with a `SigningError` whose `reason` tells why it gave up.
+ */
+export function signMessage(
+  session: NfcSession,
+  message: string,
+  opts: SignOpts = {}
+): Promise<SignResult> {
+  return run(session, textJob(message), opts, null);
+}
+
+/**
+ * Like `signMessage` for binary data, written as an
+ * `application/vnd.edsign.bytes` record and signed as plain Ed25519.
+ *
+ * With `prehash` the data never leaves the phone: only its SHA-512 digest is
+ * written (`application/vnd.edsign.ed25519ph`) and the tag signs it as
+ * Ed25519ph. Verify such results with
+ * `verifySignature(data, signature, publicKey, "ed25519ph")`; `mode` on the
+ * result says which rule applies. These runs are not persisted.
+ */
+export function signBytes(
+  session: NfcSession,
+  data: Uint8Array,
+  opts: SignBytesOpts = {}
+): Promise<SignResult> {
+  const { prehash, ...signOpts } = opts;
+  let job: SignJob;
+  if (prehash) {
+    const digest = prehashSha512(data);
+    job = {
+      cmd: { op: "signDigest", digest },
+      mode: "ed25519ph",
+      verify: (sig, pub) => verifyDigestSignature(digest, sig, pub),
+    };
+  } else {
+    job = {
+      cmd: { op: "signBytes", data },
+      mode: "pure",
+      verify: (sig, pub) => verifySignature(data, sig, pub),
+    };
+  }
+  return run(session, job, signOpts, null);
+}
+
+function timedOut(reason: SigningFailure, message: string) {
+  return new SigningError(reason, message, {
+    cause: new TimeoutError(message),
+  });
+}
+
+// Rejects up front instead of after the key read
+function checkCommand(session: NfcSession, cmd: EdSignCommand) {
+  let report;
+  try {
+    report = session.measure(cmd);
+  } catch (e) {
+    return e instanceof CommandEncodingError
+      ? new SigningError("unsupported-command", e.message, { cause: e })
+      : new SigningError("nfc-error", "Could not encode the command", {
+          cause: e,
+        });
+  }
+  if (report.fits) return null;
+  const cause = new MessageTooLargeError(report.size, report.capacity);
+  return new SigningError("too-large", cause.message, { cause });
+}
+
+function textJob(message: string): SignJob {
+  return {
+    cmd: { op: "sign", message },
+    mode: "pure",
+    verify: (sig, pub) => verifySignature(message, sig, pub),
+    text: message,
+  };
+}
+
+/**
+ * Picks up a run saved by `signMessage` with `persist`, e.g. after the page
+ * reloaded mid-computation. Nothing is written: the tag is power-cycled until
+ * it reports the signature for the saved message, which is then verified.
+ *
+ * Rejects with `nothing-to-resume` when no run is saved or the tag turns out
+ * to be idle (it lost its state), and with `message-mismatch` when
+ * `opts.message` is not the message that was written.
+ */
+export async function resumeSigning(
+  session: NfcSession,
+  storage: SigningStateStorage,
+  opts: ResumeOpts = {}
+): Promise<SignResult> {
+  const pending = await storage.load();
+  if (!pending) {
+    throw new SigningError("nothing-to-resume", "No signing run to resume");
+  }
+  const message = opts.message ?? pending.message;
+  if (hashMessage(message) !== pending.messageHash) {
+    throw new SigningError(
+      "message-mismatch",
+      "Message does not match the interrupted run"
+    );
+  }
+  return run(
+    session,
+    textJob(message),
+    { ...opts, publicKey: pending.publicKey, persist: storage },
+    pending
+  );
+}
+
+function run(
+  session: NfcSession,
+  job: SignJob,
+  opts: SignOpts,
+  resumed: PendingSigning | null
+): Promise<SignResult> {
+  const {
+    onProgress,
+    onStalled,
+    signal,
+    maxDurationMs = 40 * 60 * 1000,
+    maxCycles = 100,
+    verify = true,
+    powerOnMs = 20000,
+    readMs = 2000,
+    persist,
+  } = opts;
+
+  if (!session.isSupported) {
+    return Promise.reject(
+      new SigningError("unsupported", "Web NFC not supported", {
+        cause: new NfcUnsupportedError(),
+      })
+    );
+  }
+  if (signal?.aborted) {
+    return Promise.reject(new SigningError("aborted", "Signing aborted"));
+  }
+  if (!resumed) {
+    const invalid = checkCommand(session, job.cmd);
+    if (invalid) return Promise.reject(invalid);
+  }
+
+  return new Promise<SignResult>((resolve, reject) => {
+    let settled = false;
+    let stage: "key" | "sign" = opts.publicKey ? "sign" : "key";
+    let publicKey = opts.publicKey;
+    let cycle = 0;
+    let wake: (() => void) | null = null;
+    let telemetry: SigningTelemetry | undefined;
+    let saved: PendingSigning | null = resumed;
+    let keyTag: string | undefined;
+
+    const save = (update: Partial<PendingSigning>) => {
+      if (!persist || !saved) return;
+      saved = { ...saved, ...update, updatedAt: Date.now() };
+      persist.save(saved).catch(() => {});
+    };
+
+    // Resolves after ms, or as soon as the run settles
+    const wait = (ms: number) =>
+      new Promise<void>((r) => {
+        const t = setTimeout(done, ms);
+        function done() {
+          clearTimeout(t);
+          wake = null;
+          r();
+        }
+        wake = done;
+      });
+
+    // Interrupted runs stay saved; a signature or device error ends them
+    const finish = (fn: () => void, keepSaved = false) => {
+      if (settled) return;
+      settled = true;
+      offReading();
+      offTelemetry();
+      offStalled();
+      clearTimeout(deadline);
+      signal?.removeEventListener("abort", onAbort);
+      session.stopScan();
+      wake?.();
+      if (persist && !keepSaved) persist.clear().catch(() => {});
+      fn();
+    };
+    const fail = (err: SigningError) =>
+      finish(
+        () => reject(err),
+        err.reason === "aborted" ||
+          err.reason === "timeout" ||
+          err.reason === "max-cycles" ||
+          err.reason === "nfc-error"
+      );
+
+    const offReading = session.on("reading", (tagId, payload) => {
+      if (payload.kind !== "status" || settled) return;
+      // A resumed run only listens to the tag it was started on
+      if (resumed?.tagId !== undefined && tagId !== resumed.tagId) return;
+
+      if (stage === "key") {
+        if (payload.state === "PH_IDLE") {
+          publicKey = payload.pubkey;
+          keyTag = tagId;
+          wake?.();
+        }
+        return;
+      }
+
+      if (resumed && payload.state === "PH_IDLE") {
+        fail(
+          new SigningError(
+            "nothing-to-resume",
+            "Tag is idle; it lost the interrupted run"
+          )
+        );
+        return;
+      }
+      if (saved && !saved.tagId && tagId) save({ tagId });
+
+      switch (payload.state) {
+        case "PH_DONE": {
+          const signature = payload.signature;
+          if (!signature) return;
+          if (verify && !job.verify(signature, publicKey!)) {
+            fail(
+              new SigningError(
+                "invalid-signature",
+                "Tag signature does not verify against its public key"
+              )
+            );
+            return;
+          }
+          finish(() =>
+            resolve({
+              signature,
+              publicKey: publicKey!,
+              tagId,
+              mode: job.mode,
+              firmware: session.protocolVersion,
+            })
+          );
+          return;
+        }
+        case "ERROR":
+          fail(
+            new SigningError("device-error", payload.error, {
+              cause: new DeviceReportedError(payload.error, tagId),
+            })
+          );
+          return;
+        default:
+          const steps =
+            payload.state === "PH_R_WORK" ? payload.stepsRemaining : undefined;
+          save({ phase: payload.state, stepsRemaining: steps });
+          // Telemetry for this read was emitted just before the reading
+          const rate =
+            steps !== undefined && telemetry?.stepsRemaining === steps
+              ? telemetry
+              : undefined;
+          onProgress?.({
+            state: payload.state,
+            progress: "progress" in payload ? (payload.progress ?? 0) : 0,
+            stepsRemaining: steps,
+            stepsPerSecond: rate?.stepsPerSecond,
+            etaMs: rate?.etaMs,
+            cycle,
+          });
+      }
+    });
+
+    const offTelemetry = session.on("telemetry", (t) => (telemetry = t));
+    const offStalled = session.on("stalled", (t) => {
+      if (stage === "sign") onStalled?.(t);
+    });
+
+    const onAbort = () => fail(new SigningError("aborted", "Signing aborted"));
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const deadline = setTimeout(
+      () => fail(timedOut("timeout", "Signing timed out")),
+      maxDurationMs
+    );
+
+    // A PH_DONE read while a scan is starting settles the run before the
+    // scan has set up its polling; stop it so the session does not keep going
+    const scan = async () => {
+      await session.startScan(CYCLE_SCAN);
+      if (settled) session.stopScan();
+    };
+
+    // Every await may outlast the run (abort, deadline), so each one is
+    // followed by a settled check before the tag is touched again
+    const run = async () => {
+      if (stage === "key") {
+        await session.sendCommand({ op: "getPublicKey" });
+        if (settled) return;
+        await scan();
+        if (settled) return;
+        if (!publicKey) await wait(KEY_READ_MS);
+        session.stopScan();
+        if (settled) return;
+        if (!publicKey) {
+          fail(timedOut("no-public-key", "Tag did not report its key"));
+          return;
+        }
+        await wait(SETTLE_MS);
+        if (settled) return;
+        stage = "sign";
+      }
+
+      if (resumed) {
+        onProgress?.({ state: "RESUMED", progress: 0, cycle });
+      } else {
+        await session.sendCommand(job.cmd);
+        if (settled) return;
+        if (persist && job.text !== undefined) {
+          const now = Date.now();
+          saved = {
+            tagId: keyTag,
+            messageHash: hashMessage(job.text),
+            message: job.text,
+            publicKey: publicKey!,
+            phase: "WRITTEN",
+            startedAt: now,
+            updatedAt: now,
+          };
+          save({});
+        }
+        onProgress?.({ state: "WRITTEN", progress: 0, cycle });
+      }
+
+      while (!settled) {
+        if (cycle >= maxCycles) {
+          fail(timedOut("max-cycles", "Computation timeout"));
+          return;
+        }
+        cycle++;
+        // Keep the field on so the chip can compute...
+        await scan();
+        if (settled) return;
+        await wait(powerOnMs);
+        if (settled) return;
+        session.stopScan();
+        await wait(SETTLE_MS);
+        if (settled) return;
+        // ...then scan again to pick up the latest status
+        await scan();
+        if (settled) return;
+        await wait(readMs);
+        if (settled) return;
+        session.stopScan();
+        await wait(SETTLE_MS);
+      }
+    };
+
+    run().catch((e: any) =>
+      fail(
+        new SigningError(
+          e instanceof MessageTooLargeError ? "too-large" : "nfc-error",
+          e?.message ?? String(e),
+          { cause: e }
+        )
+      )
+    );
+  });
+}
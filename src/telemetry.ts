@@ -0,0 +1,103 @@
+import type { NfcReading } from "./parser";
+
+export type SigningTelemetry = {
+  stepsRemaining: number;
+  // Wall-clock countdown rate since the first R step of this run
+  stepsPerSecond?: number;
+  etaMs?: number;
+  // Consecutive reads that reported the same counter
+  unchangedReads: number;
+  // Time since the counter last moved
+  unchangedMs: number;
+};
+
+export type TelemetryUpdate = {
+  telemetry?: SigningTelemetry;
+  stalled?: boolean;
+};
+
+/**
+ * Follows `R:i=<n>` across raw reads (before deduplication) to estimate the
+ * signing rate and notice a counter that stopped moving.
+ *
+ * `update` returns fresh telemetry whenever the counter moves, and
+ * `stalled: true` once per stall when it has not moved for `stallAfterMs`
+ * and at least `stallAfterReads` reads. Rescans repeat the same counter
+ * several times a second, so the read count alone says nothing.
+ */
+export class ProgressTracker {
+  stallAfterReads: number;
+  stallAfterMs: number;
+
+  private first: { steps: number; ts: number } | null = null;
+  private lastSteps: number | null = null;
+  private lastChange = 0;
+  private unchanged = 0;
+  private stallReported = false;
+
+  constructor(stallAfterReads = 5, stallAfterMs = 10_000) {
+    this.stallAfterReads = stallAfterReads;
+    this.stallAfterMs = stallAfterMs;
+  }
+
+  update(reading: NfcReading, now = Date.now()): TelemetryUpdate {
+    if (reading.kind !== "status") return {};
+    if (reading.state !== "PH_R_WORK") {
+      // A new run starts with the init phases; a finished one ends here
+      if (reading.state !== "PH_R_DONE" && reading.state !== "BUSY") {
+        this.reset();
+      }
+      return {};
+    }
+
+    const steps = reading.stepsRemaining;
+    if (typeof steps !== "number") return {};
+
+    if (steps === this.lastSteps) {
+      this.unchanged++;
+      if (
+        !this.stallReported &&
+        this.unchanged >= this.stallAfterReads &&
+        now - this.lastChange >= this.stallAfterMs
+      ) {
+        this.stallReported = true;
+        return { telemetry: this.snapshot(steps, now), stalled: true };
+      }
+      return {};
+    }
+
+    // Counter went up: the tag restarted its computation
+    if (this.first && steps > this.first.steps) this.first = null;
+
+    this.first ??= { steps, ts: now };
+    this.lastSteps = steps;
+    this.lastChange = now;
+    this.unchanged = 0;
+    this.stallReported = false;
+    return { telemetry: this.snapshot(steps, now) };
+  }
+
+  reset() {
+    this.first = null;
+    this.lastSteps = null;
+    this.unchanged = 0;
+    this.stallReported = false;
+  }
+
+  private snapshot(steps: number, now: number): SigningTelemetry {
+    const telemetry: SigningTelemetry = {
+      stepsRemaining: steps,
+      unchangedReads: this.unchanged,
+      unchangedMs: now - this.lastChange,
+    };
+    if (this.first) {
+      const done = this.first.steps - steps;
+      const elapsed = now - this.first.ts;
+      if (done > 0 && elapsed > 0) {
+        telemetry.stepsPerSecond = (done * 1000) / elapsed;
+        telemetry.etaMs = Math.round((steps * elapsed) / done);
+      }
+    }
+    return telemetry;
+  }
+}
@@ -0,0 +1,194 @@
+import { base64ToBytes, bytesToBase64 } from "./base64";
+import type { NfcError } from "./errors";
+import type { NfcReading } from "./parser";
+import { NfcSession, type NfcSessionOpts } from "./session";
+import type {
+  NdefMessageInit,
+  NdefReadingEvent,
+  NdefRecord,
+  NfcTransport,
+} from "./transport";
+
+export type TranscriptRecord = {
+  recordType: string;
+  mediaType?: string;
+  id?: string;
+  encoding?: string;
+  lang?: string;
+  // Raw payload, base64
+  data?: string;
+};
+
+export type TranscriptEntry = {
+  ts: number;
+  serialNumber?: string;
+  records: TranscriptRecord[];
+};
+
+/**
+ * JSON transcript of raw `reading` events, as captured by
+ * `TranscriptRecorder`. `version` changes only if the layout does.
+ */
+export type Transcript = {
+  version: 1;
+  entries: TranscriptEntry[];
+};
+
+export type ReplayedReading = {
+  // Timestamp of the transcript entry that produced the reading
+  ts: number;
+  tagId: string | undefined;
+  reading: NfcReading;
+};
+
+function toBase64(data: DataView | ArrayBuffer) {
+  return bytesToBase64(
+    data instanceof ArrayBuffer
+      ? new Uint8Array(data)
+      : new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+  );
+}
+
+function recordToJson(record: NdefRecord): TranscriptRecord {
+  const out: TranscriptRecord = { recordType: record.recordType };
+  if (record.mediaType) out.mediaType = record.mediaType;
+  if (record.id) out.id = record.id;
+  if (record.encoding) out.encoding = record.encoding;
+  if (record.lang) out.lang = record.lang;
+  if (record.data) out.data = toBase64(record.data);
+  return out;
+}
+
+export function entryToEvent(entry: TranscriptEntry): NdefReadingEvent {
+  return {
+    serialNumber: entry.serialNumber,
+    message: {
+      records: entry.records.map(({ data, ...rest }) => ({
+        ...rest,
+        data:
+          data === undefined
+            ? undefined
+            : new DataView(base64ToBytes(data).buffer),
+      })),
+    },
+  };
+}
+
+/**
+ * Captures every raw reading that passes through a transport. Wrap the
+ * transport the session uses, then `export()` the transcript:
+ *
+ * `new NfcSession({ transport: recorder.wrap(new WebNfcTransport()) })`
+ */
+export class TranscriptRecorder {
+  private entries: TranscriptEntry[] = [];
+
+  record(event: NdefReadingEvent, ts = Date.now()) {
+    const entry: TranscriptEntry = {
+      ts,
+      records: event.message.records.map(recordToJson),
+    };
+    if (event.serialNumber !== undefined) {
+      entry.serialNumber = event.serialNumber;
+    }
+    this.entries.push(entry);
+  }
+
+  wrap(transport: NfcTransport): NfcTransport {
+    return {
+      get isSupported() {
+        return transport.isSupported;
+      },
+      scan: (opts) => transport.scan(opts),
+      write: (message, opts) => transport.write(message, opts),
+      onReading: (listener) =>
+        transport.onReading((event) => {
+          this.record(event);
+          listener(event);
+        }),
+      onReadingError: (listener) => transport.onReadingError(listener),
+    };
+  }
+
+  export(): Transcript {
+    return { version: 1, entries: this.entries.map((e) => ({ ...e })) };
+  }
+
+  toJSON() {
+    return this.export();
+  }
+
+  clear() {
+    this.entries = [];
+  }
+}
+
+/**
+ * Transport that plays a transcript back: the first scan delivers every
+ * entry in order, writes are accepted and ignored. Use it to drive the hook
+ * or an `NfcSession` from a recorded field session.
+ */
+export class ReplayTransport implements NfcTransport {
+  readonly isSupported = true;
+  // Entry being delivered, for listeners that want its timestamp
+  current: TranscriptEntry | undefined;
+
+  private transcript: Transcript;
+  private played = false;
+  private listeners = new Set<(event: NdefReadingEvent) => void>();
+
+  constructor(transcript: Transcript) {
+    if (transcript.version !== 1) {
+      throw new Error(`Unsupported transcript version: ${transcript.version}`);
+    }
+    this.transcript = transcript;
+  }
+
+  async scan(opts: { signal: AbortSignal }) {
+    if (this.played || opts.signal.aborted) return;
+    this.played = true;
+    for (const entry of this.transcript.entries) {
+      this.current = entry;
+      const event = entryToEvent(entry);
+      for (const listener of [...this.listeners]) listener(event);
+    }
+    this.current = undefined;
+  }
+
+  async write(_message: NdefMessageInit) {}
+
+  onReading(listener: (event: NdefReadingEvent) => void) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  onReadingError(_listener: (event: unknown) => void) {
+    return () => {};
+  }
+}
+
+/**
+ * Feeds a transcript through a fresh `NfcSession` (protocol detection,
+ * `tryParseFromEvent` and the reading deduplication) without any NFC
+ * hardware. Runs in Node and the browser; handy for regression fixtures.
+ */
+export async function replayTranscript(
+  transcript: Transcript,
+  opts: Omit<NfcSessionOpts, "transport"> = {}
+): Promise<{ readings: ReplayedReading[]; errors: NfcError[] }> {
+  const transport = new ReplayTransport(transcript);
+  const session = new NfcSession({ ...opts, transport });
+  const readings: ReplayedReading[] = [];
+  const errors: NfcError[] = [];
+  session.on("reading", (tagId, reading) =>
+    readings.push({ ts: transport.current?.ts ?? Date.now(), tagId, reading })
+  );
+  session.on("error", (err) => errors.push(err));
+
+  // Single-read mode: no polling timers, one deduplication run
+  const dispose = await session.startSingleRead();
+  dispose();
+  session.stopScan();
+  session.resetPresence();
+  return { readings, errors };
+}
@@ -0,0 +1,82 @@
+export type NdefRecordInit = {
+  recordType: string;
+  mediaType?: string;
+  id?: string;
+  encoding?: string;
+  lang?: string;
+  data?: string | BufferSource;
+};
+
+export type NdefMessageInit = { records: NdefRecordInit[] };
+
+export type NdefRecord = {
+  recordType: string;
+  mediaType?: string;
+  id?: string;
+  encoding?: string;
+  lang?: string;
+  data?: DataView | ArrayBuffer;
+};
+
+export type NdefReadingEvent = {
+  serialNumber?: string;
+  message: { records: NdefRecord[] };
+};
+
+/**
+ * Anything that can scan and write NDEF messages: Web NFC, a native bridge,
+ * a relay to a desktop reader or an in-memory fake.
+ *
+ * `scan` resolves once scanning has started and keeps delivering readings
+ * until `signal` aborts. The listener registration methods return an
+ * unsubscribe function.
+ */
+export interface NfcTransport {
+  readonly isSupported: boolean;
+  scan(opts: { signal: AbortSignal }): Promise<void>;
+  write(
+    message: NdefMessageInit,
+    opts?: { signal?: AbortSignal; overwrite?: boolean }
+  ): Promise<void>;
+  onReading(listener: (event: NdefReadingEvent) => void): () => void;
+  onReadingError(listener: (event: unknown) => void): () => void;
+}
+
+// Default transport backed by the browser's NDEFReader
+export class WebNfcTransport implements NfcTransport {
+  private reader: any | null = null;
+
+  get isSupported() {
+    return typeof globalThis !== "undefined" && "NDEFReader" in globalThis;
+  }
+
+  async scan(opts: { signal: AbortSignal }) {
+    await this.getReader().scan(opts);
+  }
+
+  async write(
+    message: NdefMessageInit,
+    opts?: { signal?: AbortSignal; overwrite?: boolean }
+  ) {
+    await this.getReader().write(message, opts);
+  }
+
+  onReading(listener: (event: NdefReadingEvent) => void) {
+    return this.listen("reading", listener);
+  }
+
+  onReadingError(listener: (event: unknown) => void) {
+    return this.listen("readingerror", listener);
+  }
+
+  private listen(type: string, listener: (event: any) => void) {
+    const reader = this.getReader();
+    reader.addEventListener(type, listener);
+    return () => reader.removeEventListener(type, listener);
+  }
+
+  private getReader() {
+    this.reader ??= new (globalThis as any).NDEFReader();
+    return this.reader;
+  }
+}
@@ -0,0 +1,77 @@
+import { ed25519, ed25519ph } from "@noble/curves/ed25519";
+import { ed25519phDigest } from "./prehash";
+
+/**
+ * How the tag produced a signature.
+ *
+ * - `pure`: Ed25519 over the message bytes themselves (text and `signBytes`).
+ * - `ed25519ph`: Ed25519ph (RFC 8032, empty context) over the SHA-512 digest
+ *   of the message. Its domain prefix keeps these signatures from ever
+ *   verifying as `pure` ones, so a digest cannot pass for a 64-byte message.
+ */
+export type SignatureMode = "pure" | "ed25519ph";
+
+const HEX_RE = /^[0-9a-fA-F]*$/;
+
+function hexToBytes(hex: string, expectedBytes: number): Uint8Array | null {
+  const h = hex.trim();
+  if (h.length !== expectedBytes * 2 || !HEX_RE.test(h)) return null;
+  const out = new Uint8Array(expectedBytes);
+  for (let i = 0; i < expectedBytes; i++) {
+    out[i] = parseInt(h.slice(i * 2, i * 2 + 2), 16);
+  }
+  return out;
+}
+
+function messageBytes(message: string | Uint8Array): Uint8Array {
+  return typeof message === "string"
+    ? new TextEncoder().encode(message)
+    : message;
+}
+
+/**
+ * Verifies an Ed25519 signature produced by the tag.
+ *
+ * `message` is the exact text written to the tag (UTF-8 encoded before
+ * verification) or raw bytes. `signatureHex` is the 128-hex string from
+ * `PH_DONE`, `publicKeyHex` the 64-hex string from `PH_IDLE`. In
+ * `ed25519ph` mode `message` is the whole document; it is hashed here with
+ * SHA-512 exactly as `signBytes` did before sending the digest.
+ *
+ * Verification follows RFC 8032 strictly: non-canonical point or scalar
+ * encodings are rejected. Malformed hex never throws, it returns `false`.
+ */
+export function verifySignature(
+  message: string | Uint8Array,
+  signatureHex: string,
+  publicKeyHex: string,
+  mode: SignatureMode = "pure"
+): boolean {
+  const curve = mode === "ed25519ph" ? ed25519ph : ed25519;
+  return verifyWith(curve, messageBytes(message), signatureHex, publicKeyHex);
+}
+
+// Ed25519ph check when only the digest sent to the tag is known
+export function verifyDigestSignature(
+  digest: Uint8Array,
+  signatureHex: string,
+  publicKeyHex: string
+): boolean {
+  return verifyWith(ed25519phDigest, digest, signatureHex, publicKeyHex);
+}
+
+function verifyWith(
+  curve: typeof ed25519,
+  message: Uint8Array,
+  signatureHex: string,
+  publicKeyHex: string
+) {
+  const sig = hexToBytes(signatureHex, 64);
+  const pub = hexToBytes(publicKeyHex, 32);
+  if (!sig || !pub) return false;
+  try {
+    return curve.verify(sig, message, pub, { zip215: false });
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MemorySigningStateStorage, NfcSession } from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+const fast = { powerOnMs: 300, readMs: 100 };
+
+test("a genuine tag passes", async () => {
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  const session = new NfcSession({ transport: emu.createTransport() });
+  const result = await session.authenticateTag({
+    ...fast,
+    expectedPublicKey: emu.publicKey,
+  });
+  assert.equal(result.verdict, "genuine");
+  assert.equal(result.tagId, emu.serialNumber);
+});
+
+test("a timeout names the tag and leaves nothing to resume", async () => {
+  const emu = new EdSignEmulator({ stepMs: 1000, initMs: 20 });
+  const signingState = new MemorySigningStateStorage();
+  const session = new NfcSession({
+    transport: emu.createTransport(),
+    signingState,
+  });
+  const result = await session.authenticateTag({ ...fast, maxCycles: 2 });
+  assert.equal(result.verdict, "timeout");
+  assert.equal(result.tagId, emu.serialNumber);
+  assert.equal(await signingState.load(), null);
+  assert.equal(await session.getPendingSigning(), null);
+});
+
+test("a tag that never reports its key is a timeout", async () => {
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  emu.injectFault({ type: "error-reply", count: Infinity });
+  const session = new NfcSession({ transport: emu.createTransport() });
+  session.on("error", () => {});
+  const result = await session.authenticateTag(fast);
+  assert.equal(result.verdict, "timeout");
+  assert.equal(result.tagId, emu.serialNumber);
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { blake2b } from "@noble/hashes/blake2b";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  cardanoEnterpriseAddress,
+  NfcSession,
+  signCardanoData,
+  signCardanoTransaction,
+  verifySignature,
+} from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+const fast = { powerOnMs: 300, readMs: 100 };
+
+function emulated() {
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  return { emu, session: new NfcSession({ transport: emu.createTransport() }) };
+}
+
+test("enterprise addresses match the CIP-19 test vectors", () => {
+  // addr_vk1w0l2sr2zgfm26ztc6nl9xy8ghsk5sh6ldwemlpmp9xylzy4dtf7st80zhd
+  const key =
+    "73fea80d424276ad0978d4fe5310e8bc2d485f5f6bb3bf87612989f112ad5a7d";
+  assert.equal(
+    cardanoEnterpriseAddress(key),
+    "addr1vx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzers66hrl8"
+  );
+  assert.equal(
+    cardanoEnterpriseAddress(key, "testnet"),
+    "addr_test1vz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzerspjrlsz"
+  );
+});
+
+test("the tag witnesses the blake2b-256 hash of a transaction body", async () => {
+  const { emu, session } = emulated();
+  // Minimal body: { 2: 0 } (fee 0)
+  const body = "a10200";
+  const result = await signCardanoTransaction(session, body, fast);
+
+  const txHash = blake2b(hexToBytes(body), { dkLen: 32 });
+  assert.equal(result.txHash, bytesToHex(txHash));
+  assert.equal(result.publicKey, emu.publicKey);
+  assert.ok(verifySignature(txHash, result.signature, emu.publicKey));
+  // VKeyWitness: [bytes(32) vkey, bytes(64) signature]
+  assert.equal(result.witness, `825820${emu.publicKey}5840${result.signature}`);
+});
+
+test("signCardanoData signs the CIP-8 Sig_structure", async () => {
+  const { emu, session } = emulated();
+  const result = await signCardanoData(session, "hello", {
+    ...fast,
+    publicKey: emu.publicKey,
+    network: "testnet",
+  });
+  assert.equal(
+    result.address,
+    cardanoEnterpriseAddress(emu.publicKey, "testnet")
+  );
+
+  // Protected header { 1: -8, "address": bytes(29) }
+  const keyHash = bytesToHex(blake2b(hexToBytes(emu.publicKey), { dkLen: 28 }));
+  const protectedHeader = `a201276761646472657373581d60${keyHash}`;
+  const payload = bytesToHex(new TextEncoder().encode("hello"));
+  // ["Signature1", bstr protected, bstr external_aad, bstr payload]
+  const sigStructure = `846a5369676e617475726531582a${protectedHeader}4045${payload}`;
+  const signature = result.signature.slice(-128);
+  assert.ok(
+    verifySignature(hexToBytes(sigStructure), signature, emu.publicKey)
+  );
+  // COSE_Sign1 [protected, { "hashed": false }, payload, signature]
+  assert.equal(
+    result.signature,
+    `84582a${protectedHeader}a166686173686564f445${payload}5840${signature}`
+  );
+  // COSE_Key { 1: 1, 3: -8, -1: 6, -2: bytes(32) }
+  assert.equal(result.key, `a4010103272006215820${emu.publicKey}`);
+});
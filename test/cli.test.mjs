@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { promisify } from "node:util";
+import { createReceipt, NfcSession } from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+const run = promisify(execFile);
+const cli = new URL("../dist/cli.js", import.meta.url).pathname;
+const fast = { powerOnMs: 300, readMs: 100 };
+
+async function verify(...args) {
+  try {
+    const { stdout } = await run(process.execPath, [cli, "verify", ...args]);
+    return { code: 0, stdout };
+  } catch (e) {
+    return { code: e.code, stdout: e.stdout, stderr: e.stderr };
+  }
+}
+
+test("verify --dir checks each receipt against its own message", async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), "asymmetric-nfc-"));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  const session = new NfcSession({ transport: emu.createTransport() });
+  for (const message of ["first", "second"]) {
+    const result = await session.signMessage(message, fast);
+    const receipt = createReceipt({ ...result, message });
+    await writeFile(join(dir, `${message}.json`), JSON.stringify(receipt));
+  }
+  // Not a receipt file, despite the name
+  await mkdir(join(dir, "nested.json"));
+
+  const ok = await verify("--dir", dir);
+  assert.equal(ok.code, 0);
+  assert.match(ok.stdout, /2\/2 receipts valid/);
+
+  const mixed = await verify("--dir", dir, "--message", "first");
+  assert.equal(mixed.code, 2);
+  assert.match(mixed.stderr, /--dir cannot be combined with --message/);
+});
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  CommandEncodingError,
+  encodeCommand,
+  NfcSession,
+} from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+test("legacy encoding rejects what it cannot express", () => {
+  for (const cmd of [
+    { op: "sign", message: "pubkey" },
+    { op: "reset" },
+    { op: "signDigest", digest: new Uint8Array(32) },
+  ]) {
+    assert.throws(() => encodeCommand(cmd, "legacy"), CommandEncodingError);
+  }
+});
+
+test("signMessage rejects an unencodable message before any I/O", async () => {
+  const emu = new EdSignEmulator();
+  const session = new NfcSession({ transport: emu.createTransport() });
+  let readings = 0;
+  session.on("reading", () => readings++);
+
+  await assert.rejects(session.signMessage("pubkey"), {
+    name: "SigningError",
+    reason: "unsupported-command",
+  });
+  assert.equal(readings, 0);
+});
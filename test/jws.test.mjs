@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { createPublicKey, verify } from "node:crypto";
+import { test } from "node:test";
+import {
+  jwkThumbprint,
+  NfcSession,
+  publicKeyToJwk,
+  signJws,
+  verifyJws,
+} from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+const fast = { powerOnMs: 300, readMs: 100 };
+
+async function issue(payload) {
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  const session = new NfcSession({ transport: emu.createTransport() });
+  const signed = await signJws(session, { typ: "JWT" }, payload, {
+    ...fast,
+    publicKey: emu.publicKey,
+  });
+  return { emu, ...signed };
+}
+
+// Swaps one part of a compact JWS for the base64url of `json`
+function replacePart(jws, index, json) {
+  const parts = jws.split(".");
+  parts[index] = Buffer.from(JSON.stringify(json)).toString("base64url");
+  return parts.join(".");
+}
+
+test("a tag-issued JWS round-trips and verifies with node:crypto", async () => {
+  const { emu, jws, kid } = await issue({ sub: "tag", iat: 1 });
+  assert.equal(kid, jwkThumbprint(emu.publicKey));
+
+  const jwk = publicKeyToJwk(emu.publicKey);
+  const result = verifyJws(jws, jwk);
+  assert.equal(result.verdict, "valid");
+  assert.deepEqual(result.header, { typ: "JWT", alg: "EdDSA", kid });
+  assert.deepEqual(result.payload, { sub: "tag", iat: 1 });
+
+  // Independent EdDSA check of the same token
+  const [header, payload, signature] = jws.split(".");
+  assert.ok(
+    verify(
+      null,
+      Buffer.from(`${header}.${payload}`),
+      createPublicKey({ key: jwk, format: "jwk" }),
+      Buffer.from(signature, "base64url")
+    )
+  );
+});
+
+test("tampered tokens are rejected", async () => {
+  const { emu, jws } = await issue({ sub: "tag", exp: 100 });
+  const key = emu.publicKey;
+  const now = 50_000;
+
+  assert.equal(verifyJws(jws, key, { now }).verdict, "valid");
+  assert.equal(verifyJws(jws, key, { now: 100_000 }).verdict, "expired");
+  assert.equal(
+    verifyJws(replacePart(jws, 1, { sub: "admin", exp: 100 }), key, { now })
+      .verdict,
+    "bad-signature"
+  );
+  assert.equal(
+    verifyJws(replacePart(jws, 0, { alg: "none" }), key, { now }).verdict,
+    "unsupported-alg"
+  );
+  const other = new EdSignEmulator({ seed: "other tag" }).publicKey;
+  assert.equal(verifyJws(jws, other, { now }).verdict, "key-mismatch");
+  assert.equal(verifyJws("not.a-jws", key).verdict, "malformed");
+});
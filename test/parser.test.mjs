@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  edSignLegacyProtocol,
+  edSignV2Protocol,
+  publicKeyFingerprint,
+  publicKeyToDidKey,
+  tryParseFromEvent,
+} from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+const textEvent = (text) => ({
+  serialNumber: "04:a1:b2:c3",
+  message: {
+    records: [{ recordType: "text", data: new TextEncoder().encode(text) }],
+  },
+});
+
+test("the pubkey reply is PH_IDLE with key formats", () => {
+  const { publicKey } = new EdSignEmulator();
+  for (const parser of [
+    undefined,
+    edSignV2Protocol.parse,
+    edSignLegacyProtocol.parse,
+  ]) {
+    const reading = tryParseFromEvent(textEvent(publicKey), parser);
+    assert.equal(reading.kind, "status");
+    assert.equal(reading.state, "PH_IDLE");
+    assert.equal(reading.pubkey, publicKey);
+    assert.equal(reading.keyFormats.didKey, publicKeyToDidKey(publicKey));
+    assert.equal(
+      reading.keyFormats.fingerprint,
+      publicKeyFingerprint(publicKey)
+    );
+    assert.equal(reading.keyFormats.jwk.kty, "OKP");
+  }
+});
+
+test("hex that is not a curve point has no key formats", () => {
+  const reading = tryParseFromEvent(textEvent("ff".repeat(32)));
+  assert.equal(reading.state, "PH_IDLE");
+  assert.equal(reading.keyFormats, undefined);
+});
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  LocalStorageSigningQueueStorage,
+  MemorySigningQueueStorage,
+  NfcSession,
+  SigningQueue,
+  StorageError,
+} from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+const fast = { powerOnMs: 300, readMs: 100 };
+
+test("signs every item and records failures by reason", async () => {
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  const session = new NfcSession({ transport: emu.createTransport() });
+  const signer = {
+    signMessage: (message, opts) =>
+      message === "broken"
+        ? Promise.reject(new RangeError("custom signer bug"))
+        : session.signMessage(message, opts),
+    signBytes: (data, opts) => session.signBytes(data, opts),
+  };
+  const storage = new MemorySigningQueueStorage();
+  const queue = new SigningQueue(signer, { ...fast, storage });
+  await queue.add(["item-1", "broken", new Uint8Array([1, 2, 3])]);
+
+  const summary = await queue.start();
+  assert.deepEqual(summary, { total: 3, pending: 0, signed: 2, failed: 1 });
+  assert.equal(queue.publicKey, emu.publicKey);
+  assert.equal(queue.items[1].error.reason, "signer-error");
+  assert.equal((await storage.load())[0].status, "signed");
+});
+
+test("stored items that cannot be decoded fail as invalid-item", async () => {
+  const storage = new MemorySigningQueueStorage();
+  await storage.save([
+    { id: "x", status: "pending", attempts: 0, updatedAt: 0 },
+  ]);
+  const queue = new SigningQueue(
+    { signMessage: assert.fail, signBytes: assert.fail },
+    { storage }
+  );
+  await queue.start();
+  assert.equal(queue.items[0].error.reason, "invalid-item");
+});
+
+test("a corrupt saved queue rejects ready with StorageError", async () => {
+  const storage = {
+    getItem: () => "[{",
+    setItem: () => {},
+    removeItem: () => {},
+  };
+  const queue = new SigningQueue(
+    { signMessage: assert.fail, signBytes: assert.fail },
+    { storage: new LocalStorageSigningQueueStorage(undefined, storage) }
+  );
+  await assert.rejects(queue.ready, StorageError);
+  await assert.rejects(queue.add(["a"]), StorageError);
+});
+
+test("a saved queue that is not a list rejects ready with StorageError", async () => {
+  for (const raw of ["{}", "[null]"]) {
+    const storage = {
+      getItem: () => raw,
+      setItem: () => {},
+      removeItem: () => {},
+    };
+    const queue = new SigningQueue(
+      { signMessage: assert.fail, signBytes: assert.fail },
+      { storage: new LocalStorageSigningQueueStorage(undefined, storage) }
+    );
+    await assert.rejects(queue.ready, StorageError);
+  }
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  challengeMessage,
+  createReceipt,
+  NfcSession,
+  ReceiptFormatError,
+  verifyReceipt,
+} from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+const fast = { powerOnMs: 300, readMs: 100 };
+
+function emulatedSession() {
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  return new NfcSession({ transport: emu.createTransport() });
+}
+
+test("the challenge is bound into the signature", async () => {
+  const session = emulatedSession();
+  const nonce = "3f9c2a";
+  const result = await session.signMessage(
+    challengeMessage(nonce, "Hello World"),
+    fast
+  );
+  const receipt = createReceipt({
+    ...result,
+    message: "Hello World",
+    challenge: nonce,
+  });
+
+  assert.equal(verifyReceipt(receipt, { challenge: nonce }).verdict, "valid");
+  assert.equal(
+    verifyReceipt(receipt, { challenge: "other" }).verdict,
+    "challenge-mismatch"
+  );
+  // Editing the unsigned field breaks the signature instead of passing
+  const edited = { ...receipt, challenge: "other" };
+  assert.equal(
+    verifyReceipt(edited, { challenge: "other" }).verdict,
+    "bad-signature"
+  );
+  const { challenge, ...stripped } = receipt;
+  assert.equal(verifyReceipt(stripped).verdict, "bad-signature");
+});
+
+test("a detached ed25519ph receipt needs its document to check the challenge", async () => {
+  const session = emulatedSession();
+  const document = new Uint8Array([1, 2, 3, 4]);
+  const result = await session.signBytes(challengeMessage("n1", document), {
+    ...fast,
+    prehash: true,
+  });
+  const receipt = createReceipt({
+    ...result,
+    message: document,
+    detached: true,
+    challenge: "n1",
+  });
+
+  assert.equal(verifyReceipt(receipt).verdict, "missing-message");
+  assert.equal(
+    verifyReceipt(receipt, { message: document, challenge: "n1" }).verdict,
+    "valid"
+  );
+});
+
+test("challenges with a line break are refused", () => {
+  assert.throws(() => challengeMessage("a\nb", "c"), ReceiptFormatError);
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  KeyFormatError,
+  LocalStorageTagKeyStorage,
+  StorageError,
+  TagKeyConflictError,
+  TagKeyRegistry,
+} from "../dist/core.mjs";
+
+const keyA = "ab".repeat(32);
+const keyB = "cd".repeat(32);
+
+function fakeStorage(items = {}) {
+  return {
+    getItem: (key) => items[key] ?? null,
+    setItem: (key, value) => (items[key] = value),
+    removeItem: (key) => delete items[key],
+  };
+}
+
+test("a corrupt store rejects ready with StorageError", async () => {
+  const storage = fakeStorage({ "uverify.tagKeys": "{not json" });
+  const registry = new TagKeyRegistry(
+    new LocalStorageTagKeyStorage(undefined, storage)
+  );
+  await assert.rejects(registry.ready, StorageError);
+  await assert.rejects(registry.enroll("04:01", keyA), StorageError);
+});
+
+test("a store that is not a list rejects ready with StorageError", async () => {
+  const storage = fakeStorage({ "uverify.tagKeys": "{}" });
+  const registry = new TagKeyRegistry(
+    new LocalStorageTagKeyStorage(undefined, storage)
+  );
+  await assert.rejects(registry.ready, StorageError);
+});
+
+test("a failing adapter rejects ready with StorageError", async () => {
+  const registry = new TagKeyRegistry({
+    load: () => Promise.reject(new Error("disk gone")),
+    save: async () => {},
+  });
+  await assert.rejects(registry.ready, (e) => {
+    assert.ok(e instanceof StorageError);
+    assert.equal(e.cause.message, "disk gone");
+    return true;
+  });
+});
+
+test("enroll throws typed errors", async () => {
+  const registry = new TagKeyRegistry();
+  await registry.enroll("04:01", keyA);
+  await assert.rejects(registry.enroll("04:01", keyB), TagKeyConflictError);
+  await assert.rejects(registry.enroll("04:02", "xyz"), KeyFormatError);
+});
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  LocalStorageSigningStateStorage,
+  NfcSession,
+  StorageError,
+} from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+function fakeStorage(items = {}) {
+  return {
+    getItem: (key) => items[key] ?? null,
+    setItem: (key, value) => (items[key] = value),
+    removeItem: (key) => delete items[key],
+  };
+}
+
+test("a corrupt or misshapen saved run loads as StorageError", async () => {
+  const corrupt = new LocalStorageSigningStateStorage(
+    undefined,
+    fakeStorage({ "uverify.pendingSigning": "{not json" })
+  );
+  await assert.rejects(corrupt.load(), StorageError);
+  const misshapen = new LocalStorageSigningStateStorage(
+    undefined,
+    fakeStorage({ "uverify.pendingSigning": "{}" })
+  );
+  await assert.rejects(misshapen.load(), StorageError);
+});
+
+test("broken resume storage is reported and scanning goes on", async () => {
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  const session = new NfcSession({
+    transport: emu.createTransport(),
+    signingState: new LocalStorageSigningStateStorage(
+      undefined,
+      fakeStorage({ "uverify.pendingSigning": "{not json" })
+    ),
+  });
+  const errors = [];
+  session.on("error", (e) => errors.push(e));
+  const reading = new Promise((r) => session.on("reading", r));
+
+  try {
+    await session.startScan();
+    await reading;
+  } finally {
+    session.stopScan();
+  }
+  assert.ok(errors[0] instanceof StorageError);
+  await assert.rejects(session.getPendingSigning(), StorageError);
+});
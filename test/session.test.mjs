@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { NfcSession, TagMismatchError } from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+const fast = { powerOnMs: 300, readMs: 100 };
+const timing = { stepMs: 2, initMs: 20, finalizeMs: 20 };
+
+// One reader that sees several emulated tags; writes reach the first one
+function multiTagTransport(...emulators) {
+  const transports = emulators.map((emu) => emu.createTransport());
+  const all = (subscribe) => {
+    const offs = transports.map(subscribe);
+    return () => offs.forEach((off) => off());
+  };
+  return {
+    isSupported: true,
+    scan: async (opts) => {
+      await Promise.all(transports.map((t) => t.scan(opts)));
+    },
+    write: (message, opts) => transports[0].write(message, opts),
+    onReading: (listener) => all((t) => t.onReading(listener)),
+    onReadingError: (listener) => all((t) => t.onReadingError(listener)),
+  };
+}
+
+test("PH_DONE from another tag is reported as TagMismatchError", async () => {
+  const written = new EdSignEmulator({ ...timing, serialNumber: "04:aa" });
+  const foreign = new EdSignEmulator({
+    ...timing,
+    seed: "foreign tag",
+    serialNumber: "04:bb",
+  });
+  // The foreign tag already holds a finished signature...
+  await new NfcSession({ transport: foreign.createTransport() }).signMessage(
+    "elsewhere",
+    fast
+  );
+  // ...but only comes into the field after the write to the other one
+  foreign.leaveField();
+
+  const session = new NfcSession({
+    transport: multiTagTransport(written, foreign),
+  });
+  const readings = [];
+  session.on("reading", (tagId, reading) => readings.push({ tagId, reading }));
+  const mismatch = new Promise((resolve) => session.on("error", resolve));
+  const seen = new Promise((resolve) => session.on("reading", resolve));
+
+  try {
+    await session.startScan();
+    await seen;
+    await session.writeText("hello");
+    foreign.enterField();
+    const err = await mismatch;
+    assert.ok(err instanceof TagMismatchError);
+    assert.equal(err.expectedTagId, "04:aa");
+    assert.equal(err.tagId, "04:bb");
+  } finally {
+    session.stopScan();
+  }
+  assert.ok(
+    !readings.some(
+      ({ tagId, reading }) => tagId === "04:bb" && reading.state === "PH_DONE"
+    )
+  );
+});
+
+test("presence goes present, leaving, lost and back", async () => {
+  const emu = new EdSignEmulator(timing);
+  const session = new NfcSession({
+    transport: emu.createTransport(),
+    leaveAfterMs: 200,
+    lostAfterMs: 400,
+  });
+  const changes = [];
+  const waiters = [];
+  session.on("presence", (presence, tagId) => {
+    changes.push([presence, tagId]);
+    waiters.filter((w) => w.presence === presence).forEach((w) => w.resolve());
+  });
+  const reach = (presence) =>
+    new Promise((resolve) => waiters.push({ presence, resolve }));
+  const lost = [];
+  session.on("tagLost", (tagId) => lost.push(tagId));
+
+  try {
+    const present = reach("present");
+    await session.startScan();
+    await present;
+    const gone = reach("lost");
+    emu.leaveField();
+    await gone;
+    const back = reach("present");
+    emu.enterField();
+    await back;
+  } finally {
+    session.stopScan();
+    session.resetPresence();
+  }
+  const tag = emu.serialNumber;
+  assert.deepEqual(changes, [
+    ["present", tag],
+    ["leaving", tag],
+    ["lost", tag],
+    ["present", tag],
+  ]);
+  assert.deepEqual(lost, [tag]);
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  MemorySigningStateStorage,
+  NfcSession,
+  SigningError,
+} from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+const fast = { powerOnMs: 300, readMs: 100 };
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+
+test("signs a message and verifies it against the tag key", async () => {
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  const session = new NfcSession({ transport: emu.createTransport() });
+  const result = await session.signMessage("hello", fast);
+  assert.equal(result.publicKey, emu.publicKey);
+  assert.equal(result.tagId, emu.serialNumber);
+  assert.equal(result.mode, "pure");
+});
+
+test("aborting after the key read never writes the message", async () => {
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  const signingState = new MemorySigningStateStorage();
+  const session = new NfcSession({
+    transport: emu.createTransport(),
+    signingState,
+  });
+  const controller = new AbortController();
+  // The key arrives in a PH_IDLE reading; abort inside the settle wait
+  session.on("reading", (_tagId, payload) => {
+    if (payload.kind === "status" && payload.pubkey) {
+      setTimeout(() => controller.abort(), 100);
+    }
+  });
+  const states = [];
+  const signing = session.signMessage("hello", {
+    ...fast,
+    signal: controller.signal,
+    onProgress: (p) => states.push(p.state),
+  });
+
+  await assert.rejects(
+    signing,
+    (e) => e instanceof SigningError && e.reason === "aborted"
+  );
+  await sleep(800);
+  assert.equal(emu.state.phase, "PH_IDLE");
+  assert.deepEqual(states, []);
+  assert.equal(await signingState.load(), null);
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { NfcSession, ProgressTracker } from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+const work = (stepsRemaining) => ({
+  kind: "status",
+  state: "PH_R_WORK",
+  stepsRemaining,
+});
+
+test("repeated reads of a moving counter are not a stall", () => {
+  const tracker = new ProgressTracker();
+  // A rescan every 150 ms, one step every 1.5 s
+  for (let t = 0; t < 30_000; t += 150) {
+    const { stalled } = tracker.update(work(255 - Math.floor(t / 1500)), t);
+    assert.notEqual(stalled, true, `stalled at ${t} ms`);
+  }
+});
+
+test("a counter that stops moving stalls once", () => {
+  const tracker = new ProgressTracker(5, 10_000);
+  const stalls = [];
+  for (let t = 0; t <= 25_000; t += 150) {
+    const { stalled, telemetry } = tracker.update(work(200), t);
+    if (stalled) stalls.push(telemetry);
+  }
+  assert.equal(stalls.length, 1);
+  assert.ok(stalls[0].unchangedMs >= 10_000);
+});
+
+test("a healthy emulator run emits no stalled event", async () => {
+  const emu = new EdSignEmulator({ stepMs: 1000, initMs: 20 });
+  const session = new NfcSession({ transport: emu.createTransport() });
+  let stalled = 0;
+  let telemetry = 0;
+  session.on("stalled", () => stalled++);
+  session.on("telemetry", () => telemetry++);
+
+  await session.startScan();
+  await session.writeText("hello");
+  await new Promise((resolve) => setTimeout(resolve, 4000));
+  session.stopScan();
+
+  assert.ok(telemetry > 0);
+  assert.equal(stalled, 0);
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { promisify } from "node:util";
+import {
+  NfcSession,
+  replayTranscript,
+  TranscriptRecorder,
+  UnknownProtocolError,
+} from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+const run = promisify(execFile);
+const cli = new URL("../dist/cli.js", import.meta.url).pathname;
+const fast = { powerOnMs: 300, readMs: 100 };
+
+// Records a full signing run on the emulator
+async function recordedRun() {
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  const recorder = new TranscriptRecorder();
+  const session = new NfcSession({
+    transport: recorder.wrap(emu.createTransport()),
+  });
+  const result = await session.signMessage("hello", fast);
+  return { transcript: JSON.parse(JSON.stringify(recorder)), result };
+}
+
+async function runCli(args) {
+  try {
+    const { stdout } = await run(process.execPath, [cli, ...args]);
+    return { code: 0, stdout };
+  } catch (e) {
+    return { code: e.code, stdout: e.stdout, stderr: e.stderr };
+  }
+}
+
+test("a recorded run replays to the same readings", async () => {
+  const { transcript, result } = await recordedRun();
+  assert.equal(transcript.version, 1);
+  const { readings, errors } = await replayTranscript(transcript);
+  assert.deepEqual(errors, []);
+  const states = readings.map(({ reading }) => reading.state);
+  assert.equal(states[0], "PH_IDLE");
+  const done = readings.find(({ reading }) => reading.state === "PH_DONE");
+  assert.equal(done.reading.signature, result.signature);
+  assert.equal(done.tagId, result.tagId);
+});
+
+test("an unknown pinned protocol is reported as UnknownProtocolError", async () => {
+  const { transcript } = await recordedRun();
+  const { readings, errors } = await replayTranscript(transcript, {
+    protocol: "edsign-9",
+  });
+  assert.deepEqual(readings, []);
+  assert.ok(errors[0] instanceof UnknownProtocolError);
+  assert.equal(errors[0].version, "edsign-9");
+});
+
+test("the transcript command prints the readings", async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), "asymmetric-nfc-"));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  const { transcript, result } = await recordedRun();
+  const file = join(dir, "session.json");
+  await writeFile(file, JSON.stringify(transcript));
+
+  const ok = await runCli(["transcript", file, "--protocol", "edsign-2"]);
+  assert.equal(ok.code, 0);
+  assert.match(ok.stdout, new RegExp(`PH_DONE signature=${result.signature}`));
+
+  const bad = await runCli(["transcript", file, "--protocol", "edsign-9"]);
+  assert.equal(bad.code, 2);
+  assert.match(bad.stderr, /--protocol must be one of edsign-2, edsign-1/);
+});
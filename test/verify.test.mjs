@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ed25519 } from "@noble/curves/ed25519";
+import { NfcSession, verifySignature } from "../dist/core.mjs";
+import { EdSignEmulator } from "../dist/emulator.mjs";
+
+const P = 2n ** 255n - 19n;
+const L = 2n ** 252n + 27742317777372353535851937790883648493n;
+
+// 32-byte little-endian hex, the encoding of scalars and point y-coordinates
+function le32(n) {
+  let hex = "";
+  for (let i = 0; i < 32; i++, n >>= 8n) {
+    hex += (n & 255n).toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+function fromLe32(hex) {
+  return BigInt("0x" + hex.match(/../g).reverse().join(""));
+}
+
+function hexToBytes(hex) {
+  return Uint8Array.from(hex.match(/../g), (b) => parseInt(b, 16));
+}
+
+// Runs the tag until it reports PH_DONE and returns that reading
+async function signedReading(session, message) {
+  const done = new Promise((resolve) => {
+    session.on("reading", (_tagId, reading) => {
+      if (reading.kind === "status" && reading.state === "PH_DONE") {
+        resolve(reading);
+      }
+    });
+  });
+  await session.writeText(message);
+  try {
+    await session.startScan({ pollMs: 100 });
+    return await done;
+  } finally {
+    session.stopScan();
+  }
+}
+
+test("a tag signature verifies and s + L is rejected", async () => {
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  const session = new NfcSession({ transport: emu.createTransport() });
+  const { signature } = await signedReading(session, "hello");
+  assert.ok(verifySignature("hello", signature, emu.publicKey));
+  assert.ok(!verifySignature("hellO", signature, emu.publicKey));
+
+  // Same signature with a non-reduced scalar; malleable verifiers accept it
+  const s = fromLe32(signature.slice(64));
+  const malleated = signature.slice(0, 64) + le32(s + L);
+  assert.ok(!verifySignature("hello", malleated, emu.publicKey));
+});
+
+test("non-canonical point encodings are rejected", () => {
+  // The neutral point (y = 1) with S = 0 satisfies the equation for any
+  // message; y = p + 1 encodes the same point non-canonically
+  const canonical = le32(1n);
+  const nonCanonical = le32(P + 1n);
+  const s = le32(0n);
+  const lax = (sig, pub) =>
+    ed25519.verify(
+      hexToBytes(sig),
+      new TextEncoder().encode("x"),
+      hexToBytes(pub),
+      {
+        zip215: true,
+      }
+    );
+
+  assert.ok(lax(canonical + s, nonCanonical));
+  assert.ok(!verifySignature("x", canonical + s, nonCanonical));
+  assert.ok(lax(nonCanonical + s, canonical));
+  assert.ok(!verifySignature("x", nonCanonical + s, canonical));
+});
+
+test("autoVerify flags PH_DONE readings for the written message", async () => {
+  const emu = new EdSignEmulator({ stepMs: 2, initMs: 20, finalizeMs: 20 });
+  const session = new NfcSession({
+    transport: emu.createTransport(),
+    autoVerify: true,
+    publicKey: emu.publicKey,
+  });
+  assert.equal((await signedReading(session, "hello")).verified, true);
+
+  const other = new EdSignEmulator({ seed: "other tag" });
+  const pinnedElsewhere = new NfcSession({
+    transport: new EdSignEmulator({
+      stepMs: 2,
+      initMs: 20,
+      finalizeMs: 20,
+    }).createTransport(),
+    autoVerify: true,
+    publicKey: other.publicKey,
+  });
+  const reading = await signedReading(pinnedElsewhere, "hello");
+  assert.equal(reading.verified, false);
+});